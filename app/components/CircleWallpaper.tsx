@@ -1,168 +1,584 @@
 // app/components/CircleWallpaper.tsx
 "use client";
 
-import { useEffect, useRef, type CSSProperties } from "react";
-import * as THREE from "three";
-import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
-import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
-import { BokehPass } from "three/examples/jsm/postprocessing/BokehPass.js";
-
-const GRID_ROTATION_RAD = THREE.MathUtils.degToRad(20);
-const GRID_COS = Math.cos(GRID_ROTATION_RAD);
-const GRID_SIN = Math.sin(GRID_ROTATION_RAD);
-const BASE_X_SPACING_MULTIPLIER = 1 / 0.82;
-const BASE_Y_SPACING_MULTIPLIER = 1.29;
-const Y_SPACING_REDUCTION = 0.9;
-const Y_SPACING_MULTIPLIER = BASE_Y_SPACING_MULTIPLIER * Y_SPACING_REDUCTION;
-const X_SPACING_MULTIPLIER = ((BASE_X_SPACING_MULTIPLIER * Y_SPACING_REDUCTION) + Y_SPACING_MULTIPLIER) / 2 * 1.08;
-const MIN_OPACITY = 0.08;
-const HALF_OPACITY = 0.5;
-const FALLOFF_POWER = 3.2;
-const HORIZONTAL_SCROLL_SPEED = 2.0;
-const CAMERA_FOV = 40;
-const DEFAULT_CAMERA_DISTANCE = 45;
-const DEFAULT_WAVE_HEIGHT = 1;
-const CAMERA_NEAR = 0.1;
-const CAMERA_FAR = 200;
-const GRID_PLANE_Z = 0;
-const PARTICLE_SPAWN_CHANCE = 0.48;
-const PARTICLE_OFFSET_X_RATIO = 0.75;
-const PARTICLE_OFFSET_Y_RATIO = 0.6;
-const PARTICLE_SIZE_MIN_RATIO = 0.08;
-const PARTICLE_SIZE_MAX_RATIO = 0.24;
-const PARTICLE_FLOAT_AMPLITUDE_MIN_RATIO = 0.15;
-const PARTICLE_FLOAT_AMPLITUDE_MAX_RATIO = 0.38;
-const PARTICLE_FLOAT_SPEED_MIN = 1.15;
-const PARTICLE_FLOAT_SPEED_MAX = 3.1;
-const PARTICLE_PULSE_SPEED_MIN = 0.6;
-const PARTICLE_PULSE_SPEED_MAX = 1.6;
-const PARTICLE_DEPTH_OFFSET_RATIO = 0.2;
-const PARTICLE_PULSE_STRENGTH = 0.3;
-const PARTICLE_SHIMMER_STRENGTH = 0.18;
-const PARTICLE_DRIFT_X_RATIO = 0.22;
-const PARTICLE_DRIFT_SPEED_MIN = 0.65;
-const PARTICLE_DRIFT_SPEED_MAX = 1.6;
-const PARTICLE_SPIN_SPEED_MIN = 1.25;
-const PARTICLE_SPIN_SPEED_MAX = 3.4;
-const PARTICLE_SPIN_AXIS = new THREE.Vector3(0, 0, 1);
-const PARTICLE_SWIRL_Z_RATIO = 0.14;
-const PARTICLE_SWIRL_SPEED_MIN = 0.7;
-const PARTICLE_SWIRL_SPEED_MAX = 1.9;
-// Depth of field tuning values; keep focus locked on the nearest crest each frame.
-const DOF_FOCUS_FRONT_BIAS = 0;
-const DOF_APERTURE = 0.04;
-const DOF_MAX_BLUR = 0.02;
-const DOF_FOCUS_FALLOFF_BASE = 1.25;
-const DOF_FOCUS_FALLOFF_VARIANCE = 0.9;
-const DOF_MIN_FOCUS_RANGE = 0.01;
-
-function createParticleTexture(size = 128) {
-  const canvas = document.createElement("canvas");
-  canvas.width = size;
-  canvas.height = size;
-  const context = canvas.getContext("2d");
-  if (!context) {
-    const fallback = new THREE.Texture();
-    fallback.needsUpdate = true;
-    return fallback;
-  }
-  const center = size / 2;
-  const gradient = context.createRadialGradient(center, center, size * 0.08, center, center, center);
-  gradient.addColorStop(0, "rgba(255, 255, 255, 1)");
-  gradient.addColorStop(0.35, "rgba(225, 244, 255, 0.95)");
-  gradient.addColorStop(0.68, "rgba(130, 200, 255, 0.5)");
-  gradient.addColorStop(1, "rgba(110, 185, 255, 0)");
-  context.clearRect(0, 0, size, size);
-  context.fillStyle = gradient;
-  context.fillRect(0, 0, size, size);
-  const texture = new THREE.CanvasTexture(canvas);
-  texture.colorSpace = THREE.SRGBColorSpace;
-  texture.anisotropy = 1;
-  texture.needsUpdate = true;
-  return texture;
-}
+import {
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type CSSProperties,
+  type ReactNode,
+  type Ref,
+} from "react";
+import {
+  DEFAULT_MAX_QUALITY,
+  DEFAULT_MIN_QUALITY,
+  isCircleWallpaperQuality,
+  type CircleWallpaperQuality,
+} from "./circleWallpaperQuality";
+import {
+  DEFAULT_FLOW,
+  createCircleWallpaperRenderer,
+  isCircleWallpaperMotion,
+  loadCircleImage,
+  resolveSeed,
+  resolveWaveParams,
+  toError,
+  type CameraVector,
+  type CircleWallpaperCamera,
+  type CircleWallpaperFailureListener,
+  type CircleWallpaperFlow,
+  type CircleWallpaperHighlight,
+  type CircleWallpaperInstance,
+  type CircleWallpaperInteraction,
+  type CircleWallpaperMotion,
+  type CircleWallpaperPoint,
+  type CircleWallpaperRect,
+  type CircleWallpaperRenderer,
+  type CircleWallpaperRendererSettings,
+  type CircleWallpaperSceneOptions,
+  type CircleWallpaperStats,
+  type CircleWallpaperViewport,
+  type WaveParams,
+} from "./circleWallpaperScene";
+import {
+  resolveCircleWallpaperTheme,
+  type CircleWallpaperTheme,
+  type CircleWallpaperThemeProp,
+} from "./circleWallpaperTheme";
+import {
+  resolveGrid,
+  type CircleWallpaperCellSize,
+  type CircleWallpaperGrid,
+  type CircleWallpaperLattice,
+} from "./circleWallpaperGrid";
+import {
+  isIntensityImage,
+  loadIntensityImage,
+  type CircleWallpaperIntensity,
+  type CircleWallpaperIntensityCallback,
+  type CircleWallpaperIntensityImage,
+  type CircleWallpaperIntensityMap,
+  type CircleWallpaperSceneIntensity,
+} from "./circleWallpaperIntensity";
+import {
+  resolveDepthOfField,
+  type CircleWallpaperDepthOfField,
+  type CircleWallpaperFocusMode,
+} from "./circleWallpaperDepthOfField";
+import {
+  isCustomEffect,
+  type CircleWallpaperBloom,
+  type CircleWallpaperChromaticAberration,
+  type CircleWallpaperColorGrading,
+  type CircleWallpaperCustomEffect,
+  type CircleWallpaperEffect,
+  type CircleWallpaperGrain,
+  type CircleWallpaperLut,
+  type CircleWallpaperVignette,
+} from "./circleWallpaperEffects";
+import {
+  DEFAULT_TRANSITION,
+  isCircleWallpaperEasing,
+  type CircleWallpaperEasing,
+  type CircleWallpaperTransition,
+} from "./circleWallpaperTransition";
+import {
+  BUILT_IN_WAVE_FIELD_NAMES,
+  DEFAULT_WAVE_FIELD,
+  getWaveField,
+  registerWaveField,
+  type WaveField,
+} from "./circleWallpaperWaveFields";
+import type {
+  CircleWallpaperWorkerEvent,
+  CircleWallpaperWorkerMessage,
+} from "./circleWallpaper.worker";
+import { toValueKey } from "./circleWallpaperValueKey";
+import { CircleWallpaperFallback } from "./CircleWallpaperFallback";
+import { useSharedCircleWallpaperRenderer } from "./CircleWallpaperProvider";
+
+export const DEFAULT_CAMERA_DISTANCE = 45;
+export const DEFAULT_WAVE_HEIGHT = 1;
+export const DEFAULT_BLUR_INTENSITY = 1;
+// The circle SVGs only declare a viewBox, so give the worker bitmap an explicit size.
+const CIRCLE_BITMAP_SIZE = 256;
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+const DARK_COLOR_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+const DEFAULT_INTERACTION: CircleWallpaperInteraction = { strength: 0.5, radius: 2.5, decay: 1.5 };
+const DEFAULT_HIGHLIGHT: CircleWallpaperHighlightStyle = {
+  opacity: 2,
+  outsideOpacity: 1,
+  wave: 1,
+  falloff: 48,
+  padding: 0,
+};
 
-type BaseInstanceData = {
-  baseX: number;
-  baseY: number;
-  row: number;
-  col: number;
-  shift: number;
-  worldColumn: number;
-  baseOpacity: number;
+// Opacity and wave multipliers for the circles inside a highlighted region (and opacity outside
+// it); falloff and padding are in CSS pixels.
+export type CircleWallpaperHighlightStyle = {
+  opacity: number;
+  outsideOpacity: number;
+  wave: number;
+  falloff: number;
+  padding: number;
 };
 
-type LayoutState = {
-  hasData: boolean;
-  xSpacing: number;
-  ySpacing: number;
-  diameter: number;
-  baseZ: number;
-  scaleX: number;
-  scaleY: number;
-  amplitude: number;
-  secondaryAmplitude: number;
-  rippleAmplitude: number;
-  waveLength: number;
+// A CSS selector, or a rect in viewport coordinates like getBoundingClientRect returns.
+export type CircleWallpaperHighlightProp = Partial<CircleWallpaperHighlightStyle> & {
+  target: string | CircleWallpaperRect;
 };
 
-type ParticleInstanceData = {
-  baseX: number;
-  baseY: number;
-  size: number;
-  floatAmplitude: number;
-  floatSpeed: number;
-  floatPhase: number;
-  pulseSpeed: number;
-  pulseOffset: number;
-  waveStrength: number;
-  depthOffset: number;
-  baseOpacity: number;
-  driftAmplitude: number;
-  driftSpeed: number;
-  driftPhase: number;
-  driftDirection: number;
-  swirlAmplitude: number;
-  swirlSpeed: number;
-  swirlPhase: number;
-  swirlDirection: number;
-  spinSpeed: number;
-  spinPhase: number;
+type HighlightSource = {
+  target: string | Element | CircleWallpaperRect;
+  style: CircleWallpaperHighlightStyle;
 };
 
-type WaveParams = {
-  speed: number;
-  secondaryFrequency: number;
-  rippleFrequencyX: number;
-  rippleFrequencyZ: number;
-  rippleSpeed: number;
-  pulseSpeed: number;
-  pulseSpatialX: number;
-  pulseSpatialZ: number;
+export type {
+  CameraVector,
+  CircleWallpaperBloom,
+  CircleWallpaperCellSize,
+  CircleWallpaperChromaticAberration,
+  CircleWallpaperColorGrading,
+  CircleWallpaperCustomEffect,
+  CircleWallpaperDepthOfField,
+  CircleWallpaperEasing,
+  CircleWallpaperEffect,
+  CircleWallpaperFlow,
+  CircleWallpaperFocusMode,
+  CircleWallpaperGrain,
+  CircleWallpaperGrid,
+  CircleWallpaperIntensity,
+  CircleWallpaperIntensityCallback,
+  CircleWallpaperIntensityImage,
+  CircleWallpaperIntensityMap,
+  CircleWallpaperInteraction,
+  CircleWallpaperLattice,
+  CircleWallpaperLut,
+  CircleWallpaperMotion,
+  CircleWallpaperQuality,
+  CircleWallpaperRect,
+  CircleWallpaperStats,
+  CircleWallpaperTheme,
+  CircleWallpaperThemeProp,
+  CircleWallpaperTransition,
+  CircleWallpaperVignette,
+  WaveField,
+  WaveParams,
 };
 
-export type CameraVector = {
-  x?: number;
-  y?: number;
-  z?: number;
+export { registerWaveField };
+
+// Live control without re-rendering. Values set here last until the matching prop changes.
+export type CircleWallpaperHandle = {
+  // Fields left out keep their current values.
+  setCamera: (camera: {
+    distance?: number;
+    translation?: CameraVector;
+    rotation?: CameraVector;
+  }) => void;
+  // Merged into the current wave and tweened like the wave prop.
+  setWave: (wave: Partial<WaveParams>) => void;
+  setBlur: (blurIntensity: number) => void;
+  pause: () => void;
+  resume: () => void;
+  setTime: (seconds: number | null) => void;
+  setPlaybackRate: (rate: number) => void;
+  captureFrame: (type?: string, quality?: number) => Promise<Blob>;
+  getStats: () => Promise<CircleWallpaperStats>;
+  // Highlights an element or viewport rect alongside the highlights prop until the returned
+  // function is called. Elements are followed as they move or resize.
+  highlight: (
+    target: Element | CircleWallpaperRect,
+    style?: Partial<CircleWallpaperHighlightStyle>,
+  ) => () => void;
 };
 
 export type CircleWallpaperProps = {
+  ref?: Ref<CircleWallpaperHandle>;
   style?: CSSProperties;
   cameraDistance?: number;
+  // Primary wave amplitude; wave.amplitude takes precedence.
   waveHeight?: number;
+  // Wave shape and speeds; changes tween in without rebuilding the scene.
+  wave?: Partial<WaveParams>;
+  // "sines", "gerstner", "radial", "noise", "standing", "flat", or a name passed to
+  // registerWaveField. Circles and particles both follow it.
+  waveField?: string;
   cameraTranslation?: CameraVector;
   cameraRotation?: CameraVector;
   blurIntensity?: number;
+  // Where the blur focuses: "crest" (the default) follows the nearest wave crest, "fixed" a
+  // focusDistance from the camera, "point" a world focusPoint and "pointer" the wave under the
+  // pointer. aperture and maxBlur are scaled by blurIntensity; focusRange and falloff shape how
+  // blur builds behind the focus, and focusSpeed eases focus changes instead of snapping.
+  // samples ("low", "medium", "high" or a tap count) and halfResolution trade blur quality for speed.
+  depthOfField?: Partial<CircleWallpaperDepthOfField>;
+  // Lattice ("staggered", "square", "hex", "radial" or "fibonacci"), rotation in radians, circle
+  // size in world units or as { width, height } fractions of the view, spacing in circle
+  // diameters and row stagger. Fields left out use the lattice's defaults.
+  grid?: Partial<CircleWallpaperGrid>;
+  // Drift velocity in world units per second along the grid's rows (x) and across them (y), so
+  // with a grid rotation of 0 these are the screen axes. Axes left out stand still; { x: 0, y: 0 }
+  // stops the drift. Defaults to { x: 2, y: 0 }.
+  flow?: Partial<CircleWallpaperFlow>;
+  // Same seed, same circle intensities and particles across mounts; a fresh layout when unset.
+  seed?: number | string;
+  // Lights circles from your own data instead of random rolls: a map of values, an image such as
+  // "/logo.svg", or a (row, worldColumn) => opacity callback. Placed in grid space, so the shape
+  // drifts with the flow; the wave pulse still modulates it. Keep callbacks stable, e.g. with
+  // useCallback, since a new function lights the grid again.
+  intensity?: CircleWallpaperIntensity;
+  // Regions that light up, dim or calm the circles around page content: CSS selectors or viewport
+  // rects, with a soft edge. Elements are followed as they move or resize; pass elements
+  // themselves through the handle's highlight method.
+  highlights?: CircleWallpaperHighlightProp[];
+  // Post-processing applied in order after depth of field: { type: "bloom" }, "vignette",
+  // "grain", "colorGrading", "lut" (a .cube file), "chromaticAberration", or { type: "pass" }
+  // with your own three.js Pass. Keep custom passes stable, e.g. with useMemo; they also keep
+  // the wallpaper on the main thread.
+  effects?: CircleWallpaperEffect[];
+  // Render from a Web Worker through OffscreenCanvas. The wallpaper stays on the main thread when
+  // OffscreenCanvas is unsupported, and moves back there while intensity is a callback or effects
+  // include a custom pass, since neither can cross threads; nothing is dropped. The worker
+  // renderer reports those options through onError if it is handed them anyway.
+  // Ignored inside a CircleWallpaperProvider, which already draws every wallpaper through one context.
+  offscreen?: boolean;
+  // Suspend rendering while the wallpaper is scrolled out of view or the tab is hidden.
+  pauseWhenHidden?: boolean;
+  // Defaults to "reduced" when the user prefers reduced motion; "none" draws a single still frame.
+  motion?: CircleWallpaperMotion;
+  // How camera, wave height, wave and blur prop changes tween: a duration in milliseconds and a
+  // named or cubic-bezier easing. A change mid-tween blends on from the current values; false
+  // applies changes at once. Handle setters other than setWave always apply at once.
+  transition?: false | Partial<CircleWallpaperTransition>;
+  // Seconds on the wallpaper clock, which drives wave, particles and scroll together. While set,
+  // the clock follows this prop only, e.g. to freeze a frame or follow a scroll timeline.
+  time?: number;
+  paused?: boolean;
+  // Clock speed multiplier; negative values play backwards.
+  playbackRate?: number;
+  // "light" or "dark", or overrides on the preset that follows prefers-color-scheme.
+  theme?: CircleWallpaperThemeProp;
+  // Clear to transparent instead of the theme background so page content shows through.
+  transparent?: boolean;
+  // Opt-in pointer and touch disturbances: a bulge under the pointer that repels particles and
+  // ripples on press. Listens on the window, so content above the wallpaper stays clickable.
+  interaction?: boolean | Partial<CircleWallpaperInteraction>;
+  // Bounds for the frame-time driven quality governor; inside a provider, set these on the provider.
+  minQuality?: CircleWallpaperQuality;
+  maxQuality?: CircleWallpaperQuality;
+  onQualityChange?: (quality: CircleWallpaperQuality) => void;
+  // Shown while WebGL is unavailable or its context is lost; defaults to a CSS approximation.
+  fallback?: ReactNode;
+  onError?: (error: Error) => void;
+};
+
+function createMediaQueryStore(query: string) {
+  return {
+    subscribe: (onChange: () => void) => {
+      const list = window.matchMedia(query);
+      list.addEventListener("change", onChange);
+      return () => {
+        list.removeEventListener("change", onChange);
+      };
+    },
+    getSnapshot: () => window.matchMedia(query).matches,
+    getServerSnapshot: () => false,
+  };
+}
+
+const reducedMotionStore = createMediaQueryStore(REDUCED_MOTION_QUERY);
+const darkColorSchemeStore = createMediaQueryStore(DARK_COLOR_SCHEME_QUERY);
+
+const finiteOr = (value: number | undefined, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+const mergeCameraVector = (current: Required<CameraVector>, next: CameraVector | undefined) => ({
+  x: finiteOr(next?.x, current.x),
+  y: finiteOr(next?.y, current.y),
+  z: finiteOr(next?.z, current.z),
+});
+
+const createNotMountedError = () => new Error("CircleWallpaper is not mounted");
+
+// Custom passes cannot be serialized; they are compared by identity through an id instead.
+const customPassIds = new WeakMap<CircleWallpaperCustomEffect["pass"], number>();
+let nextCustomPassId = 0;
+
+const toEffectKey = (effect: CircleWallpaperEffect) => {
+  if (!isCustomEffect(effect)) {
+    return effect;
+  }
+  let id = customPassIds.get(effect.pass);
+  if (id === undefined) {
+    nextCustomPassId += 1;
+    id = nextCustomPassId;
+    customPassIds.set(effect.pass, id);
+  }
+  return { type: "pass", id };
 };
 
+const resolveHighlightStyle = (
+  style: Partial<CircleWallpaperHighlightStyle> | undefined,
+): CircleWallpaperHighlightStyle => ({
+  opacity: Math.max(0, finiteOr(style?.opacity, DEFAULT_HIGHLIGHT.opacity)),
+  outsideOpacity: Math.max(0, finiteOr(style?.outsideOpacity, DEFAULT_HIGHLIGHT.outsideOpacity)),
+  wave: finiteOr(style?.wave, DEFAULT_HIGHLIGHT.wave),
+  falloff: Math.max(0, finiteOr(style?.falloff, DEFAULT_HIGHLIGHT.falloff)),
+  padding: finiteOr(style?.padding, DEFAULT_HIGHLIGHT.padding),
+});
+
+// Null while a selector matches nothing.
+const resolveHighlightTarget = (target: HighlightSource["target"]) =>
+  typeof target === "string" ? document.querySelector(target) : target;
+
+// Null while a target is missing or an element is not rendered.
+function readHighlightRect(target: Element | CircleWallpaperRect | null): CircleWallpaperRect | null {
+  if (!target) {
+    return null;
+  }
+  if (!(target instanceof Element)) {
+    return target;
+  }
+  const rect = target.getBoundingClientRect();
+  return rect.width > 0 || rect.height > 0 ? rect : null;
+}
+
+// Whether a CSS animation or transition is moving one of the elements or an ancestor of it.
+function isAnimatingAny(elements: Element[]) {
+  return document.getAnimations().some((animation) => {
+    const target =
+      animation.playState === "running" && animation.effect instanceof KeyframeEffect
+        ? animation.effect.target
+        : null;
+    return target !== null && elements.some((element) => target.contains(element));
+  });
+}
+
+function supportsOffscreenCanvas(canvas: HTMLCanvasElement) {
+  return (
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof canvas.transferControlToOffscreen === "function"
+  );
+}
+
+function createWorkerWallpaperRenderer(
+  canvas: HTMLCanvasElement,
+  options: CircleWallpaperSceneOptions,
+  viewport: CircleWallpaperViewport,
+  { minQuality, maxQuality, onQualityChange, onFailure, onError }: CircleWallpaperRendererSettings,
+): CircleWallpaperRenderer {
+  const worker = new Worker(new URL("./circleWallpaper.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  worker.addEventListener("error", (event) => {
+    console.warn("CircleWallpaper worker failed", event.message);
+    onFailure?.(new Error(event.message));
+  });
+  let nextRequestId = 0;
+  const pendingFrames = new Map<
+    number,
+    { resolve: (blob: Blob) => void; reject: (error: Error) => void }
+  >();
+  const pendingStats = new Map<
+    number,
+    { resolve: (stats: CircleWallpaperStats) => void; reject: (error: Error) => void }
+  >();
+  worker.addEventListener("message", (event: MessageEvent<CircleWallpaperWorkerEvent>) => {
+    const data = event.data;
+    if (data.type === "quality") {
+      onQualityChange?.(data.quality);
+    } else if (data.type === "failure") {
+      onFailure?.(data.message === null ? null : new Error(data.message));
+    } else if (data.type === "frame") {
+      const request = pendingFrames.get(data.id);
+      pendingFrames.delete(data.id);
+      if (data.blob) {
+        request?.resolve(data.blob);
+      } else {
+        request?.reject(new Error(data.error ?? "CircleWallpaper has no frame to capture"));
+      }
+    } else if (data.type === "stats") {
+      const request = pendingStats.get(data.id);
+      pendingStats.delete(data.id);
+      if (data.stats) {
+        request?.resolve(data.stats);
+      } else {
+        request?.reject(new Error("CircleWallpaper worker has no wallpaper"));
+      }
+    }
+  });
+  const post = (message: CircleWallpaperWorkerMessage, transfer: Transferable[] = []) => {
+    worker.postMessage(message, transfer);
+  };
+  const offscreenCanvas = canvas.transferControlToOffscreen();
+  post(
+    { type: "init", canvas: offscreenCanvas, options, viewport, minQuality, maxQuality },
+    [offscreenCanvas],
+  );
+  let disposed = false;
+
+  return {
+    resize: (nextViewport) => {
+      post({ type: "resize", viewport: nextViewport });
+    },
+    setOptions: (nextOptions) => {
+      post({ type: "options", options: nextOptions });
+    },
+    setTransition: (transition) => {
+      post({ type: "transition", transition });
+    },
+    setTheme: (theme) => {
+      post({ type: "theme", theme });
+    },
+    setWave: (wave) => {
+      post({ type: "wave", wave });
+    },
+    setIntensity: (intensity) => {
+      if (typeof intensity === "function") {
+        onError?.(new Error("CircleWallpaper intensity callbacks cannot run in the worker"));
+        return;
+      }
+      post({ type: "intensity", intensity });
+    },
+    setHighlights: (highlights) => {
+      post({ type: "highlights", highlights });
+    },
+    setEffects: (effects) => {
+      if (effects.some(isCustomEffect)) {
+        onError?.(new Error("CircleWallpaper custom passes cannot run in the worker"));
+      }
+      post({
+        type: "effects",
+        effects: effects.flatMap((effect) => (isCustomEffect(effect) ? [] : [effect])),
+      });
+    },
+    setWaveField: (name) => {
+      const field = BUILT_IN_WAVE_FIELD_NAMES.includes(name) ? undefined : getWaveField(name);
+      post({ type: "waveField", name, glsl: field?.glsl });
+    },
+    setCamera: (camera) => {
+      post({ type: "camera", camera });
+    },
+    setBlur: (blurIntensity) => {
+      post({ type: "blur", blurIntensity });
+    },
+    captureFrame: (mimeType, quality) =>
+      new Promise<Blob>((resolve, reject) => {
+        if (disposed) {
+          reject(new Error("CircleWallpaper has no frame to capture"));
+          return;
+        }
+        nextRequestId += 1;
+        pendingFrames.set(nextRequestId, { resolve, reject });
+        post({ type: "captureFrame", id: nextRequestId, mimeType, quality });
+      }),
+    getStats: () =>
+      new Promise<CircleWallpaperStats>((resolve, reject) => {
+        if (disposed) {
+          reject(new Error("CircleWallpaper worker has no wallpaper"));
+          return;
+        }
+        nextRequestId += 1;
+        pendingStats.set(nextRequestId, { resolve, reject });
+        post({ type: "stats", id: nextRequestId });
+      }),
+    setCircleImage: (image) => {
+      // Flip while decoding; WebGL cannot flip ImageBitmaps on upload.
+      createImageBitmap(image, {
+        imageOrientation: "flipY",
+        resizeWidth: CIRCLE_BITMAP_SIZE,
+        resizeHeight: CIRCLE_BITMAP_SIZE,
+      })
+        .then((bitmap) => {
+          if (disposed) {
+            bitmap.close();
+            return;
+          }
+          post({ type: "circleImage", image: bitmap }, [bitmap]);
+        })
+        .catch(() => {
+          console.warn("Failed to decode the circle texture for the wallpaper worker");
+        });
+    },
+    setVisible: (visible) => {
+      post({ type: "visibility", visible });
+    },
+    setInteraction: (interaction) => {
+      post({ type: "interaction", interaction });
+    },
+    setPointer: (point) => {
+      post({ type: "pointer", point });
+    },
+    addRipple: (point) => {
+      post({ type: "ripple", point });
+    },
+    setMotion: (motion) => {
+      post({ type: "motion", motion });
+    },
+    setTime: (seconds) => {
+      post({ type: "time", seconds });
+    },
+    setPaused: (paused) => {
+      post({ type: "paused", paused });
+    },
+    setPlaybackRate: (rate) => {
+      post({ type: "playbackRate", rate });
+    },
+    setQualityRange: (nextMinQuality, nextMaxQuality) => {
+      post({ type: "qualityRange", minQuality: nextMinQuality, maxQuality: nextMaxQuality });
+    },
+    dispose: () => {
+      if (disposed) {
+        return;
+      }
+      disposed = true;
+      post({ type: "dispose" });
+      const disposedError = new Error("CircleWallpaper was disposed");
+      for (const request of [...pendingFrames.values(), ...pendingStats.values()]) {
+        request.reject(disposedError);
+      }
+      pendingFrames.clear();
+      pendingStats.clear();
+    },
+  };
+}
+
 export function CircleWallpaper({
+  ref,
   style,
   cameraDistance = DEFAULT_CAMERA_DISTANCE,
   waveHeight = DEFAULT_WAVE_HEIGHT,
+  wave,
+  waveField = DEFAULT_WAVE_FIELD,
   cameraTranslation,
   cameraRotation,
   blurIntensity,
+  depthOfField,
+  seed,
+  grid,
+  flow,
+  intensity,
+  highlights,
+  effects,
+  transition,
+  offscreen = false,
+  pauseWhenHidden = true,
+  motion,
+  time,
+  paused = false,
+  playbackRate = 1,
+  theme,
+  transparent = false,
+  interaction = false,
+  minQuality = DEFAULT_MIN_QUALITY,
+  maxQuality = DEFAULT_MAX_QUALITY,
+  onQualityChange,
+  fallback,
+  onError,
 }: CircleWallpaperProps = {}) {
   const effectiveCameraDistance = Number.isFinite(cameraDistance)
     ? cameraDistance
@@ -171,6 +587,7 @@ export function CircleWallpaper({
     ? waveHeight
     : DEFAULT_WAVE_HEIGHT;
   const normalizedWaveHeight = Math.max(effectiveWaveHeight, 0);
+  const waveKey = toValueKey(resolveWaveParams(wave, normalizedWaveHeight));
   const sanitizeAxisValue = (value?: number) =>
     typeof value === "number" && Number.isFinite(value) ? value : 0;
   const translationX = sanitizeAxisValue(cameraTranslation?.x);
@@ -179,1046 +596,692 @@ export function CircleWallpaper({
   const rotationX = sanitizeAxisValue(cameraRotation?.x);
   const rotationY = sanitizeAxisValue(cameraRotation?.y);
   const rotationZ = sanitizeAxisValue(cameraRotation?.z);
-  const secondaryWaveAmplitude = normalizedWaveHeight * 0.15;
-  const rippleWaveAmplitude = normalizedWaveHeight * 0.05;
   const normalizedBlurIntensity = (() => {
     const value = typeof blurIntensity === "number" && Number.isFinite(blurIntensity)
       ? blurIntensity
-      : 1;
+      : DEFAULT_BLUR_INTENSITY;
     return Math.max(0, value);
   })();
+  const resolvedSeed = seed === undefined ? null : resolveSeed(seed);
+  const resolvedGrid = resolveGrid(grid);
+  const gridKey = toValueKey(resolvedGrid);
+  const cellAspect = resolvedGrid.spacingX / resolvedGrid.spacingY;
+  const resolvedDepthOfField = resolveDepthOfField(depthOfField);
+  const depthOfFieldKey = toValueKey(resolvedDepthOfField);
+  const intensityCallback = typeof intensity === "function" ? intensity : null;
+  const intensityKey = toValueKey(intensity && typeof intensity === "object" ? intensity : null);
+  const effectsKey = toValueKey((effects ?? []).map(toEffectKey));
+  const customEffects = effects?.some(isCustomEffect) ?? false;
+  const workerRendering = offscreen && !intensityCallback && !customEffects;
+  const highlightsKey = toValueKey(highlights ?? []);
+  const flowX = flow ? finiteOr(flow.x, 0) : DEFAULT_FLOW.x;
+  const flowY = flow ? finiteOr(flow.y, 0) : DEFAULT_FLOW.y;
+  const transitionDuration =
+    transition === false
+      ? 0
+      : Math.max(0, finiteOr(transition?.duration, DEFAULT_TRANSITION.duration));
+  const transitionEasingKey = toValueKey(
+    transition && isCircleWallpaperEasing(transition.easing)
+      ? transition.easing
+      : DEFAULT_TRANSITION.easing,
+  );
+  const effectiveMinQuality = isCircleWallpaperQuality(minQuality) ? minQuality : DEFAULT_MIN_QUALITY;
+  const effectiveMaxQuality = isCircleWallpaperQuality(maxQuality) ? maxQuality : DEFAULT_MAX_QUALITY;
+  const reducedMotion = useSyncExternalStore(
+    reducedMotionStore.subscribe,
+    reducedMotionStore.getSnapshot,
+    reducedMotionStore.getServerSnapshot,
+  );
+  const effectiveMotion: CircleWallpaperMotion = isCircleWallpaperMotion(motion)
+    ? motion
+    : reducedMotion
+      ? "reduced"
+      : "full";
+  const controlledTime = typeof time === "number" && Number.isFinite(time) ? time : null;
+  const effectivePlaybackRate = Number.isFinite(playbackRate) ? playbackRate : 1;
+  const darkColorScheme = useSyncExternalStore(
+    darkColorSchemeStore.subscribe,
+    darkColorSchemeStore.getSnapshot,
+    darkColorSchemeStore.getServerSnapshot,
+  );
+  const {
+    background: themeBackground,
+    circleTint,
+    circleTextureUrl,
+    particleColor,
+    particleGradient,
+  } = resolveCircleWallpaperTheme(theme, darkColorScheme ? "dark" : "light");
+  const background = transparent ? "transparent" : themeBackground;
+  const interactionEnabled = interaction !== false;
+  // Pointer focus needs the pointer position even without interaction.
+  const pointerTracking = interactionEnabled || resolvedDepthOfField.mode === "pointer";
+  const interactionSettings = typeof interaction === "object" ? interaction : {};
+  const sanitizeInteractionValue = (value: number | undefined, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) ? Math.max(0, value) : fallback;
+  const interactionStrength = sanitizeInteractionValue(
+    interactionSettings.strength,
+    DEFAULT_INTERACTION.strength,
+  );
+  const interactionRadius = sanitizeInteractionValue(
+    interactionSettings.radius,
+    DEFAULT_INTERACTION.radius,
+  );
+  const interactionDecay = sanitizeInteractionValue(
+    interactionSettings.decay,
+    DEFAULT_INTERACTION.decay,
+  );
+  const particleGradientKey = toValueKey(particleGradient);
   const containerRef = useRef<HTMLDivElement>(null);
-  const baseInstancesRef = useRef<BaseInstanceData[]>([]);
-  const baseOpacityRef = useRef<Float32Array>(new Float32Array(0));
-  const particleInstancesRef = useRef<ParticleInstanceData[]>([]);
-  const particleOpacityRef = useRef<Float32Array>(new Float32Array(0));
-  const layoutStateRef = useRef<LayoutState>({
-    hasData: false,
-    xSpacing: 1,
-    ySpacing: 1,
-    diameter: 1,
-    baseZ: GRID_PLANE_Z,
-    scaleX: 1,
-    scaleY: 1,
-    amplitude: normalizedWaveHeight,
-    secondaryAmplitude: secondaryWaveAmplitude,
-    rippleAmplitude: rippleWaveAmplitude,
-    waveLength: 4,
-  });
-  const waveParamsRef = useRef<WaveParams>({
-    speed: 1.2,
-    secondaryFrequency: 1.5,
-    rippleFrequencyX: 2.5,
-    rippleFrequencyZ: 1.8,
-    rippleSpeed: 3.0,
-    pulseSpeed: 1.5,
-    pulseSpatialX: 0.8,
-    pulseSpatialZ: 0.6,
-  });
+  const sharedRenderer = useSharedCircleWallpaperRenderer();
+  const wallpaperRef = useRef<CircleWallpaperInstance | null>(null);
+  const optionsRef = useRef<CircleWallpaperSceneOptions | null>(null);
+  const themeRef = useRef<CircleWallpaperTheme | null>(null);
+  const waveRef = useRef<WaveParams | null>(null);
+  const waveFieldRef = useRef(waveField);
+  const intensityRef = useRef<CircleWallpaperSceneIntensity | null>(null);
+  const transitionRef = useRef<CircleWallpaperTransition>(DEFAULT_TRANSITION);
+  const registeredHighlightsRef = useRef(new Set<HighlightSource>());
+  const effectsRef = useRef<CircleWallpaperEffect[]>([]);
+  // Bumped when the handle adds or removes a highlight so the tracking effect picks it up.
+  const [highlightVersion, setHighlightVersion] = useState(0);
+  const qualityRangeRef = useRef({ minQuality: effectiveMinQuality, maxQuality: effectiveMaxQuality });
+  const onQualityChangeRef = useRef(onQualityChange);
+  const onErrorRef = useRef(onError);
+  const [failed, setFailed] = useState(false);
+
+  useImperativeHandle(
+    ref,
+    (): CircleWallpaperHandle => ({
+      setCamera: ({ distance, translation, rotation }) => {
+        const options = optionsRef.current;
+        if (!options) {
+          return;
+        }
+        const camera: CircleWallpaperCamera = {
+          cameraDistance: finiteOr(distance, options.cameraDistance),
+          cameraTranslation: mergeCameraVector(options.cameraTranslation, translation),
+          cameraRotation: mergeCameraVector(options.cameraRotation, rotation),
+        };
+        optionsRef.current = { ...options, ...camera };
+        wallpaperRef.current?.setCamera(camera);
+      },
+      setWave: (nextWave) => {
+        const currentWave = waveRef.current;
+        if (!currentWave) {
+          return;
+        }
+        const mergedWave: WaveParams = { ...currentWave };
+        for (const [key, value] of Object.entries(nextWave) as Array<
+          [keyof WaveParams, number | undefined]
+        >) {
+          mergedWave[key] = finiteOr(value, currentWave[key]);
+        }
+        waveRef.current = mergedWave;
+        wallpaperRef.current?.setWave(mergedWave);
+      },
+      setBlur: (blurIntensity) => {
+        const options = optionsRef.current;
+        if (!options) {
+          return;
+        }
+        const nextBlurIntensity = Math.max(0, finiteOr(blurIntensity, options.blurIntensity));
+        optionsRef.current = { ...options, blurIntensity: nextBlurIntensity };
+        wallpaperRef.current?.setBlur(nextBlurIntensity);
+      },
+      pause: () => {
+        wallpaperRef.current?.setPaused(true);
+      },
+      resume: () => {
+        wallpaperRef.current?.setPaused(false);
+      },
+      setTime: (seconds) => {
+        wallpaperRef.current?.setTime(
+          typeof seconds === "number" && Number.isFinite(seconds) ? seconds : null,
+        );
+      },
+      setPlaybackRate: (rate) => {
+        wallpaperRef.current?.setPlaybackRate(finiteOr(rate, 1));
+      },
+      captureFrame: (type, quality) =>
+        wallpaperRef.current?.captureFrame(type, quality) ??
+        Promise.reject(createNotMountedError()),
+      getStats: () =>
+        wallpaperRef.current?.getStats() ?? Promise.reject(createNotMountedError()),
+      highlight: (target, style) => {
+        const source: HighlightSource = { target, style: resolveHighlightStyle(style) };
+        registeredHighlightsRef.current.add(source);
+        setHighlightVersion((version) => version + 1);
+        return () => {
+          if (registeredHighlightsRef.current.delete(source)) {
+            setHighlightVersion((version) => version + 1);
+          }
+        };
+      },
+    }),
+    [],
+  );
 
   useEffect(() => {
-    const container = containerRef.current;
-    if (!container) {
-      return;
-    }
-
-    const dofAperture = normalizedBlurIntensity === 0 ? 0 : DOF_APERTURE * normalizedBlurIntensity;
-    const dofMaxBlur = normalizedBlurIntensity === 0 ? 0 : DOF_MAX_BLUR * normalizedBlurIntensity;
-    const focusFalloffPower = Math.max(
-      1,
-      DOF_FOCUS_FALLOFF_BASE + normalizedBlurIntensity * DOF_FOCUS_FALLOFF_VARIANCE,
-    );
-
-    const baseSeed = (Math.floor(Math.random() * 0xffffffff) >>> 0) || 0x9e3779b1;
-
-    const scene = new THREE.Scene();
-    const scrollGroup = new THREE.Group();
-    const circlesGroup = new THREE.Group();
-    circlesGroup.rotation.z = GRID_ROTATION_RAD;
-    scrollGroup.add(circlesGroup);
-    const particlesGroup = new THREE.Group();
-    particlesGroup.rotation.z = GRID_ROTATION_RAD;
-    scrollGroup.add(particlesGroup);
-    scene.add(scrollGroup);
-
-    let composer: EffectComposer | null = null;
-    let bokehPass: BokehPass | null = null;
-    const focusTarget = new THREE.Vector3();
-    const farFocusTarget = new THREE.Vector3();
-
-    const renderer = new THREE.WebGLRenderer({ antialias: false, alpha: false, powerPreference: "high-performance" });
-    renderer.outputColorSpace = THREE.SRGBColorSpace;
-    renderer.setClearColor(0xffffff, 1);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 1.7));
-    renderer.setSize(container.clientWidth, container.clientHeight, false);
-    renderer.domElement.style.display = "block";
-    renderer.domElement.style.width = "100%";
-    renderer.domElement.style.height = "100%";
-    renderer.domElement.style.pointerEvents = "none";
-    container.appendChild(renderer.domElement);
-
-    const camera = new THREE.PerspectiveCamera(
-      CAMERA_FOV,
-      container.clientWidth / container.clientHeight,
-      CAMERA_NEAR,
-      CAMERA_FAR,
-    );
-    camera.position.set(
-      translationX,
-      translationY,
-      effectiveCameraDistance + translationZ,
-    );
-    camera.lookAt(0, 0, GRID_PLANE_Z);
-    if (rotationX !== 0 || rotationY !== 0 || rotationZ !== 0) {
-      camera.rotation.x += rotationX;
-      camera.rotation.y += rotationY;
-      camera.rotation.z += rotationZ;
-    }
-
-    let lastFocusDistance = -1;
-    let lastFocusRange = -1;
+    onQualityChangeRef.current = onQualityChange;
+  }, [onQualityChange]);
 
-    const updateDepthOfField = (targetZ: number, farZ?: number) => {
-      focusTarget.set(0, 0, targetZ);
-      const focusDistance = Math.max(0.1, camera.position.distanceTo(focusTarget));
-      if (!Number.isFinite(focusDistance)) {
-        return;
-      }
-
-      let focusRange = DOF_MIN_FOCUS_RANGE;
-      if (typeof farZ === "number" && Number.isFinite(farZ)) {
-        farFocusTarget.set(0, 0, farZ);
-        const farDistance = Math.max(0.1, camera.position.distanceTo(farFocusTarget));
-        focusRange = Math.max(DOF_MIN_FOCUS_RANGE, farDistance - focusDistance);
-      }
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
 
-      const distanceChanged = Math.abs(focusDistance - lastFocusDistance) > 1e-3 || lastFocusDistance < 0;
-      const rangeChanged = Math.abs(focusRange - lastFocusRange) > 1e-3 || lastFocusRange < 0;
+  useEffect(() => {
+    effectsRef.current = effects ?? [];
+  }, [effects]);
 
-      if (distanceChanged) {
-        lastFocusDistance = focusDistance;
-        camera.focus = focusDistance;
-      }
-      if (rangeChanged) {
-        lastFocusRange = focusRange;
-      }
+  useEffect(() => {
+    qualityRangeRef.current = { minQuality: effectiveMinQuality, maxQuality: effectiveMaxQuality };
+    wallpaperRef.current?.setQualityRange(effectiveMinQuality, effectiveMaxQuality);
+  }, [effectiveMinQuality, effectiveMaxQuality]);
 
-      if (bokehPass) {
-        if (distanceChanged) {
-          bokehPass.uniforms.focus.value = focusDistance;
-        }
-        if (rangeChanged) {
-          if (!bokehPass.uniforms.focusRange) {
-            bokehPass.uniforms.focusRange = { value: focusRange } as { value: number };
-          } else {
-            bokehPass.uniforms.focusRange.value = focusRange;
-          }
-        }
-        bokehPass.uniforms.aperture.value = dofAperture;
-        bokehPass.uniforms.maxblur.value = dofMaxBlur;
-        if (bokehPass.uniforms.focusFalloff) {
-          bokehPass.uniforms.focusFalloff.value = focusFalloffPower;
-        }
-      }
+  // Declared before the option effects so their changes already use the new transition.
+  useEffect(() => {
+    const nextTransition: CircleWallpaperTransition = {
+      duration: transitionDuration,
+      easing: JSON.parse(transitionEasingKey),
     };
+    transitionRef.current = nextTransition;
+    wallpaperRef.current?.setTransition(nextTransition);
+  }, [transitionDuration, transitionEasingKey]);
 
-    const defaultFocusTargetZ =
-      GRID_PLANE_Z +
-      normalizedWaveHeight +
-      secondaryWaveAmplitude +
-      rippleWaveAmplitude +
-      DOF_FOCUS_FRONT_BIAS;
-    const defaultFarTargetZ =
-      GRID_PLANE_Z -
-      (normalizedWaveHeight + secondaryWaveAmplitude + rippleWaveAmplitude);
-    focusTarget.set(0, 0, defaultFocusTargetZ);
-    const initialFocusDistance = Math.max(0.1, camera.position.distanceTo(focusTarget));
-
-    composer = new EffectComposer(renderer);
-    const renderPass = new RenderPass(scene, camera);
-    composer.addPass(renderPass);
-    bokehPass = new BokehPass(scene, camera, {
-      focus: initialFocusDistance,
-      aperture: dofAperture,
-      maxblur: dofMaxBlur,
-    });
-    const bokehMaterial = bokehPass.materialBokeh;
-    const bokehUniforms = bokehMaterial.uniforms;
-    const focusFalloffUniform = (bokehUniforms.focusFalloff ??= { value: focusFalloffPower });
-    focusFalloffUniform.value = focusFalloffPower;
-    const focusRangeUniform = (bokehUniforms.focusRange ??= { value: DOF_MIN_FOCUS_RANGE });
-    focusRangeUniform.value = DOF_MIN_FOCUS_RANGE;
-    if (!bokehMaterial.userData.focusFalloffPatched) {
-      bokehMaterial.fragmentShader = bokehMaterial.fragmentShader
-        .replace(
-          "uniform sampler2D tColor;",
-          "uniform sampler2D tColor;\n\nvec4 sampleColor( vec2 sampleUv ) {\n\tvec4 texel = texture2D( tColor, sampleUv );\n\ttexel.rgb *= texel.a;\n\treturn texel;\n}\n",
-        )
-        .replace(
-          "uniform float focus;",
-          "uniform float focus;\nuniform float focusRange;\nuniform float focusFalloff;",
-        )
-        .replace(
-          "vec4 col = vec4( 0.0 );",
-          "vec4 col = vec4( 0.0 );",
-        )
-        .replace(/col \+= texture2D\( tColor, /g, "col += sampleColor( ")
-        .replace(
-          "float factor = ( focus + viewZ );",
-          "float factor = ( focus + viewZ );\n\tfloat viewDistance = -viewZ;\n\tfloat depthDelta = viewDistance - focus;\n\tif ( depthDelta <= 0.0 ) {\n\t\tfactor = 0.0;\n\t} else {\n\t\tfloat normalized = clamp( depthDelta / max( focusRange, 1e-6 ), 0.0, 1.0 );\n\t\tfactor = pow( normalized, focusFalloff );\n\t}\n",
-        )
-        .replace(
-          "gl_FragColor = col / 41.0;\n\tgl_FragColor.a = 1.0;",
-          "float totalWeight = max( col.a, 1e-5 );\n\tvec3 finalColor = col.rgb / totalWeight;\n\tfloat finalAlpha = clamp( col.a / 41.0, 0.0, 1.0 );\n\tgl_FragColor = vec4( finalColor, finalAlpha );",
-        );
-      bokehMaterial.userData.focusFalloffPatched = true;
-      bokehMaterial.needsUpdate = true;
-    }
-    bokehPass.uniforms.focusFalloff = bokehUniforms.focusFalloff;
-    bokehPass.uniforms.focusRange = focusRangeUniform;
-    bokehPass.renderToScreen = true;
-    composer.addPass(bokehPass);
-    updateDepthOfField(defaultFocusTargetZ, defaultFarTargetZ);
-
-    const circleGeometry = new THREE.PlaneGeometry(1, 1);
-    const circleMaterial = new THREE.MeshBasicMaterial({
-      color: 0xffffff,
-      transparent: true,
-      depthWrite: false,
-      depthTest: true,
-      toneMapped: false,
-    });
-    circleMaterial.side = THREE.DoubleSide;
-    circleMaterial.onBeforeCompile = (shader) => {
-      shader.vertexShader = shader.vertexShader
-        .replace(
-          "#include <common>",
-          '#include <common>\nattribute float instanceOpacity;\nvarying float vInstanceOpacity;',
-        )
-        .replace("#include <begin_vertex>", "#include <begin_vertex>\n\tvInstanceOpacity = instanceOpacity;");
-
-      shader.fragmentShader = shader.fragmentShader
-        .replace("#include <common>", "#include <common>\nvarying float vInstanceOpacity;")
-        .replace("#include <dithering_fragment>", "#include <dithering_fragment>\n\tgl_FragColor.a *= vInstanceOpacity;");
-    };
-    circleMaterial.customProgramCacheKey = () => "circle-opacity";
-    circleMaterial.needsUpdate = true;
-
-    const particleGeometry = new THREE.PlaneGeometry(1, 1);
-    const particleTexture = createParticleTexture();
-    particleTexture.anisotropy = Math.min(4, renderer.capabilities.getMaxAnisotropy());
-    particleTexture.needsUpdate = true;
-    const particleMaterial = new THREE.MeshBasicMaterial({
-      color: 0x87c7ff,
-      transparent: true,
-      depthWrite: false,
-      depthTest: true,
-      toneMapped: false,
-      blending: THREE.AdditiveBlending,
-    });
-    particleMaterial.side = THREE.DoubleSide;
-    particleMaterial.opacity = 1;
-    particleMaterial.map = particleTexture;
-    particleMaterial.onBeforeCompile = (shader) => {
-      shader.vertexShader = shader.vertexShader
-        .replace(
-          "#include <common>",
-          '#include <common>\nattribute float instanceOpacity;\nvarying float vParticleOpacity;',
-        )
-        .replace(
-          "#include <begin_vertex>",
-          "#include <begin_vertex>\n\tvParticleOpacity = instanceOpacity;",
-        );
-      shader.fragmentShader = shader.fragmentShader
-        .replace("#include <common>", "#include <common>\nvarying float vParticleOpacity;")
-        .replace(
-          "#include <dithering_fragment>",
-          "#include <dithering_fragment>\n\tgl_FragColor.a *= vParticleOpacity;",
-        );
+  // Declared before the mount effect so optionsRef is populated by the time it runs.
+  useEffect(() => {
+    const options: CircleWallpaperSceneOptions = {
+      cameraDistance: effectiveCameraDistance,
+      cameraTranslation: { x: translationX, y: translationY, z: translationZ },
+      cameraRotation: { x: rotationX, y: rotationY, z: rotationZ },
+      blurIntensity: normalizedBlurIntensity,
+      seed: resolvedSeed,
+      grid: JSON.parse(gridKey),
+      flow: { x: flowX, y: flowY },
+      depthOfField: JSON.parse(depthOfFieldKey),
     };
-    particleMaterial.customProgramCacheKey = () => "particle-opacity";
-    particleMaterial.needsUpdate = true;
-
-    let instancedCircles: THREE.InstancedMesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial> | null = null;
-    let instanceOpacityAttribute: THREE.InstancedBufferAttribute | null = null;
-    let instanceCapacity = 0;
-    let instancedParticles: THREE.InstancedMesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial> | null =
-      null;
-    let particleOpacityAttribute: THREE.InstancedBufferAttribute | null = null;
-    let particleInstanceCapacity = 0;
-    const randomForCell = (row: number, col: number, variant = 0) => {
-      let seed =
-        ((row * 73856093) ^ (col * 19349663) ^ (variant * 83492791) ^ baseSeed) >>> 0;
-      seed = (seed ^ (seed << 13)) >>> 0;
-      seed = (seed ^ (seed >>> 17)) >>> 0;
-      seed = (seed ^ (seed << 5)) >>> 0;
-      return seed / 4294967296;
+    optionsRef.current = options;
+    wallpaperRef.current?.setOptions(options);
+  }, [
+    effectiveCameraDistance,
+    translationX,
+    translationY,
+    translationZ,
+    rotationX,
+    rotationY,
+    rotationZ,
+    normalizedBlurIntensity,
+    resolvedSeed,
+    gridKey,
+    flowX,
+    flowY,
+    depthOfFieldKey,
+  ]);
+
+  // Theme and wave settings are also declared before the mount effect, which hands them to new wallpapers.
+  useEffect(() => {
+    const nextTheme: CircleWallpaperTheme = {
+      background,
+      circleTint,
+      circleTextureUrl,
+      particleColor,
+      particleGradient: JSON.parse(particleGradientKey),
     };
+    themeRef.current = nextTheme;
+    wallpaperRef.current?.setTheme(nextTheme);
+  }, [background, circleTint, circleTextureUrl, particleColor, particleGradientKey]);
 
-    const ensureInstanceCapacity = (required: number) => {
-      if (required <= 0) {
-        if (instancedCircles) {
-          instancedCircles.count = 0;
-        }
-        return;
-      }
+  useEffect(() => {
+    const nextWave: WaveParams = JSON.parse(waveKey);
+    waveRef.current = nextWave;
+    wallpaperRef.current?.setWave(nextWave);
+  }, [waveKey]);
 
-      if (!instancedCircles || required > instanceCapacity) {
-        const nextCapacity = Math.max(required, Math.ceil(Math.max(1, instanceCapacity) * 1.2));
-        if (instancedCircles) {
-          circlesGroup.remove(instancedCircles);
-          instancedCircles.dispose();
-        }
-        instancedCircles = new THREE.InstancedMesh(circleGeometry, circleMaterial, nextCapacity);
-        instancedCircles.frustumCulled = false;
-        instancedCircles.renderOrder = 2;
-        circlesGroup.add(instancedCircles);
-        instanceCapacity = nextCapacity;
-        instanceOpacityAttribute = new THREE.InstancedBufferAttribute(new Float32Array(nextCapacity), 1);
-        instanceOpacityAttribute.setUsage(THREE.DynamicDrawUsage);
-        instancedCircles.geometry.setAttribute("instanceOpacity", instanceOpacityAttribute);
-      }
+  useEffect(() => {
+    waveFieldRef.current = waveField;
+    wallpaperRef.current?.setWaveField(waveField);
+  }, [waveField]);
 
-      if (instancedCircles) {
-        instancedCircles.count = required;
-      }
+  useEffect(() => {
+    let cancelled = false;
+    const applyIntensity = (nextIntensity: CircleWallpaperSceneIntensity | null) => {
+      intensityRef.current = nextIntensity;
+      wallpaperRef.current?.setIntensity(nextIntensity);
     };
-
-    const ensureParticleCapacity = (required: number) => {
-      if (required <= 0) {
-        if (instancedParticles) {
-          instancedParticles.count = 0;
+    if (intensityCallback) {
+      // The callback runs for every cell on each layout, inside the frame loop. The first throw
+      // is reported and failing cells stay fully lit, so one bad cell cannot stop the wallpaper.
+      let reported = false;
+      applyIntensity((row, worldColumn) => {
+        try {
+          return intensityCallback(row, worldColumn);
+        } catch (error) {
+          if (!reported) {
+            reported = true;
+            const onError = onErrorRef.current;
+            if (onError) {
+              onError(toError(error));
+            } else {
+              console.warn("CircleWallpaper intensity callback failed", error);
+            }
+          }
+          return 1;
         }
-        return;
+      });
+    } else {
+      const source: CircleWallpaperIntensityMap | CircleWallpaperIntensityImage | null =
+        JSON.parse(intensityKey);
+      if (!source) {
+        applyIntensity(null);
+      } else if (isIntensityImage(source)) {
+        // Images light the grid once loaded; until then the random intensities stay.
+        loadIntensityImage(source, cellAspect)
+          .then((map) => {
+            if (!cancelled) {
+              applyIntensity(map);
+            }
+          })
+          .catch((error) => {
+            console.warn(toError(error).message);
+          });
+      } else {
+        applyIntensity(source);
       }
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [intensityCallback, intensityKey, cellAspect]);
 
-      if (!instancedParticles || required > particleInstanceCapacity) {
-        const nextCapacity = Math.max(
-          required,
-          Math.ceil(Math.max(1, particleInstanceCapacity) * 1.2),
-        );
-        if (instancedParticles) {
-          particlesGroup.remove(instancedParticles);
-          instancedParticles.dispose();
-        }
-        instancedParticles = new THREE.InstancedMesh(
-          particleGeometry,
-          particleMaterial,
-          nextCapacity,
-        );
-        instancedParticles.frustumCulled = false;
-        instancedParticles.renderOrder = 3;
-        particlesGroup.add(instancedParticles);
-        particleInstanceCapacity = nextCapacity;
-        particleOpacityAttribute = new THREE.InstancedBufferAttribute(
-          new Float32Array(nextCapacity),
-          1,
-        );
-        particleOpacityAttribute.setUsage(THREE.DynamicDrawUsage);
-        instancedParticles.geometry.setAttribute("instanceOpacity", particleOpacityAttribute);
-      }
+  useEffect(() => {
+    const container = containerRef.current;
+    const options = optionsRef.current;
+    const initialTheme = themeRef.current;
+    const initialWave = waveRef.current;
+    if (!container || !options || !initialTheme || !initialWave) {
+      return;
+    }
 
-      if (instancedParticles) {
-        instancedParticles.count = required;
+    const handleFailure: CircleWallpaperFailureListener = (error) => {
+      setFailed(error !== null);
+      if (error) {
+        onErrorRef.current?.(error);
       }
     };
 
-    const tempPosition = new THREE.Vector3();
-    const tempQuaternion = new THREE.Quaternion();
-    const tempScale = new THREE.Vector3();
-    const tempMatrix = new THREE.Matrix4();
-
-    let currentWidth = container.clientWidth;
-    let currentHeight = container.clientHeight;
-    let currentViewWidth = 0;
-    let currentViewHeight = 0;
-    let scrollOffset = 0;
-    let worldColumnOffset = 0;
-    let layoutBaseOffset = 0;
-    let lastTimestamp: number | null = null;
-    let animationStopped = false;
-    let currentXSpacing = 1;
-
-    const layoutCircles = (
-      viewWidth: number,
-      viewHeight: number,
-      columnWorldOffset = 0,
-    ) => {
-      const diameter = Math.max(0.2, Math.min(viewWidth * 0.07, viewHeight * 0.12));
-      const xSpacing = diameter * X_SPACING_MULTIPLIER;
-      const ySpacing = diameter * Y_SPACING_MULTIPLIER;
-      const radius = diameter * 0.5;
-      const safetyPadding = Math.max(diameter * 0.12, 0.2);
-      currentXSpacing = xSpacing;
-      const baseOffset = 0;
-      layoutBaseOffset = baseOffset;
-
-      const halfWidth = viewWidth * 0.5;
-      const halfHeight = viewHeight * 0.5;
-      const corners = [
-        { x: -halfWidth, y: -halfHeight },
-        { x: -halfWidth, y: halfHeight },
-        { x: halfWidth, y: -halfHeight },
-        { x: halfWidth, y: halfHeight },
-      ];
-
-      let minLocalX = Number.POSITIVE_INFINITY;
-      let maxLocalX = Number.NEGATIVE_INFINITY;
-      let minLocalY = Number.POSITIVE_INFINITY;
-      let maxLocalY = Number.NEGATIVE_INFINITY;
-
-      for (const corner of corners) {
-        const localX = corner.x * GRID_COS + corner.y * GRID_SIN - baseOffset;
-        const localY = -corner.x * GRID_SIN + corner.y * GRID_COS;
-        if (localX < minLocalX) minLocalX = localX;
-        if (localX > maxLocalX) maxLocalX = localX;
-        if (localY < minLocalY) minLocalY = localY;
-        if (localY > maxLocalY) maxLocalY = localY;
-      }
+    if (sharedRenderer) {
+      const instance = sharedRenderer.attach(
+        options,
+        () => container.getBoundingClientRect(),
+        handleFailure,
+      );
+      instance.setTransition(transitionRef.current);
+      instance.setTheme(initialTheme);
+      instance.setWaveField(waveFieldRef.current);
+      instance.setWave(initialWave);
+      instance.setIntensity(intensityRef.current);
+      wallpaperRef.current = instance;
+      return () => {
+        wallpaperRef.current = null;
+        instance.dispose();
+      };
+    }
 
-      const margin = radius + safetyPadding;
-      minLocalX -= margin;
-      maxLocalX += margin;
-      minLocalY -= margin;
-      maxLocalY += margin;
+    const canvas = document.createElement("canvas");
+    canvas.style.display = "block";
+    canvas.style.width = "100%";
+    canvas.style.height = "100%";
+    canvas.style.pointerEvents = "none";
+    container.appendChild(canvas);
+
+    const readViewport = (): CircleWallpaperViewport => ({
+      width: container.clientWidth,
+      height: container.clientHeight,
+      pixelRatio: window.devicePixelRatio,
+    });
 
-      const rowMin = Math.floor(minLocalY / ySpacing) - 1;
-      const rowMax = Math.ceil(maxLocalY / ySpacing) + 1;
+    const settings: CircleWallpaperRendererSettings = {
+      ...qualityRangeRef.current,
+      onQualityChange: (quality) => {
+        onQualityChangeRef.current?.(quality);
+      },
+      onFailure: handleFailure,
+      onError: (error) => {
+        onErrorRef.current?.(error);
+      },
+    };
+    let wallpaper: CircleWallpaperRenderer;
+    try {
+      wallpaper =
+        workerRendering && supportsOffscreenCanvas(canvas)
+          ? createWorkerWallpaperRenderer(canvas, options, readViewport(), settings)
+          : createCircleWallpaperRenderer(canvas, options, readViewport(), settings);
+    } catch (error) {
+      container.removeChild(canvas);
+      handleFailure(toError(error));
+      return;
+    }
+    wallpaper.setTransition(transitionRef.current);
+    wallpaper.setTheme(initialTheme);
+    wallpaper.setWaveField(waveFieldRef.current);
+    wallpaper.setWave(initialWave);
+    wallpaper.setIntensity(intensityRef.current);
+    wallpaperRef.current = wallpaper;
 
-      const rows: Array<{ row: number; shift: number; cMin: number; cMax: number }> = [];
-      let requiredCount = 0;
+    const updateSize = () => {
+      wallpaper.resize(readViewport());
+    };
 
-      for (let row = rowMin; row <= rowMax; row += 1) {
-        const shift = (row & 1) !== 0 ? 0.5 : 0;
-        const cMin = Math.floor(minLocalX / xSpacing - shift) - 1;
-        const cMax = Math.ceil(maxLocalX / xSpacing - shift) + 1;
-        if (cMax < cMin) {
-          continue;
-        }
-        rows.push({ row, shift, cMin, cMax });
-        requiredCount += cMax - cMin + 1;
-      }
+    const resizeObserver = new ResizeObserver(() => {
+      updateSize();
+    });
+    resizeObserver.observe(container);
 
-      if (requiredCount <= 0) {
-        ensureInstanceCapacity(0);
-        baseInstancesRef.current = [];
-        baseOpacityRef.current = new Float32Array(0);
-        layoutStateRef.current = {
-          ...layoutStateRef.current,
-          hasData: false,
-        };
-        return;
-      }
+    window.addEventListener("resize", updateSize);
+    window.addEventListener("orientationchange", updateSize);
 
-      ensureInstanceCapacity(requiredCount);
-      if (!instancedCircles || !instanceOpacityAttribute) {
-        return;
+    return () => {
+      window.removeEventListener("resize", updateSize);
+      window.removeEventListener("orientationchange", updateSize);
+      resizeObserver.disconnect();
+      wallpaperRef.current = null;
+      wallpaper.dispose();
+      if (canvas.parentElement === container) {
+        container.removeChild(canvas);
       }
+    };
+  }, [workerRendering, sharedRenderer]);
 
-      const opacityArray = instanceOpacityAttribute.array as Float32Array;
-      baseInstancesRef.current = new Array<BaseInstanceData>(requiredCount);
-      baseOpacityRef.current = new Float32Array(requiredCount);
-      const baseInstances = baseInstancesRef.current;
-      const baseOpacityValues = baseOpacityRef.current;
-      const particleBuffer: ParticleInstanceData[] = [];
-
-      let index = 0;
-      let minX = Number.POSITIVE_INFINITY;
-      let maxX = Number.NEGATIVE_INFINITY;
-      let minY = Number.POSITIVE_INFINITY;
-      let maxY = Number.NEGATIVE_INFINITY;
-      const baseZ = GRID_PLANE_Z;
-
-      for (const { row, shift, cMin, cMax } of rows) {
-        const y = row * ySpacing;
-        tempQuaternion.identity();
-        tempScale.set(diameter, diameter, 1);
-
-        for (let col = cMin; col <= cMax; col += 1) {
-          const x = (col + shift) * xSpacing;
-          const worldCol = col + columnWorldOffset;
-
-          tempPosition.set(x, y, baseZ);
-          tempMatrix.compose(tempPosition, tempQuaternion, tempScale);
-          instancedCircles.setMatrixAt(index, tempMatrix);
-
-          const rotatedX = x * GRID_COS - y * GRID_SIN;
-          const rotatedY = x * GRID_SIN + y * GRID_COS;
-          if (rotatedX - radius < minX) minX = rotatedX - radius;
-          if (rotatedX + radius > maxX) maxX = rotatedX + radius;
-          if (rotatedY - radius < minY) minY = rotatedY - radius;
-          if (rotatedY + radius > maxY) maxY = rotatedY + radius;
-
-          const intensityRoll = randomForCell(row, worldCol, 0);
-          let opacity = MIN_OPACITY;
-          if (intensityRoll < 0.015) {
-            opacity = 1;
-          } else if (intensityRoll < 0.055) {
-            opacity = HALF_OPACITY;
-          } else {
-            const base = Math.pow(randomForCell(row, worldCol, 1), FALLOFF_POWER);
-            const jitter = 0.82 + randomForCell(row, worldCol, 2) * 0.35;
-            const value = MIN_OPACITY + (HALF_OPACITY - MIN_OPACITY) * base * jitter;
-            opacity = Math.min(HALF_OPACITY - 0.05, Math.max(MIN_OPACITY, value));
-          }
-          opacityArray[index] = opacity;
-          baseOpacityValues[index] = opacity;
-          baseInstances[index] = {
-            baseX: x,
-            baseY: y,
-            row,
-            col,
-            shift,
-            worldColumn: worldCol,
-            baseOpacity: opacity,
-          };
-
-          const particleRoll = randomForCell(row, worldCol, 6);
-          if (particleRoll < PARTICLE_SPAWN_CHANCE) {
-            const offsetX =
-              (randomForCell(row, worldCol, 7) - 0.5) * xSpacing * PARTICLE_OFFSET_X_RATIO;
-            const offsetY =
-              (randomForCell(row, worldCol, 8) - 0.5) * ySpacing * PARTICLE_OFFSET_Y_RATIO;
-            const sizeRand = randomForCell(row, worldCol, 9);
-            const particleSize =
-              diameter *
-              (PARTICLE_SIZE_MIN_RATIO +
-                (PARTICLE_SIZE_MAX_RATIO - PARTICLE_SIZE_MIN_RATIO) * sizeRand);
-            const floatRangeRand = randomForCell(row, worldCol, 10);
-            const floatAmplitude =
-              ySpacing *
-              (PARTICLE_FLOAT_AMPLITUDE_MIN_RATIO +
-                (PARTICLE_FLOAT_AMPLITUDE_MAX_RATIO - PARTICLE_FLOAT_AMPLITUDE_MIN_RATIO) *
-                  floatRangeRand);
-            const floatSpeed =
-              PARTICLE_FLOAT_SPEED_MIN +
-              randomForCell(row, worldCol, 11) *
-                (PARTICLE_FLOAT_SPEED_MAX - PARTICLE_FLOAT_SPEED_MIN);
-            const floatPhase = randomForCell(row, worldCol, 12) * Math.PI * 2;
-            const pulseSpeed =
-              PARTICLE_PULSE_SPEED_MIN +
-              randomForCell(row, worldCol, 13) *
-                (PARTICLE_PULSE_SPEED_MAX - PARTICLE_PULSE_SPEED_MIN);
-            const pulseOffset = randomForCell(row, worldCol, 14) * Math.PI * 2;
-            const waveStrength = 0.55 + randomForCell(row, worldCol, 15) * 0.6;
-            const depthOffset =
-              (randomForCell(row, worldCol, 16) - 0.5) *
-              diameter *
-              PARTICLE_DEPTH_OFFSET_RATIO;
-            const baseOpacity = Math.min(1, 0.5 + randomForCell(row, worldCol, 17) * 0.45);
-            const driftMagnitude =
-              xSpacing *
-              PARTICLE_DRIFT_X_RATIO *
-              (0.6 + randomForCell(row, worldCol, 18) * 0.8);
-            const driftDirection = randomForCell(row, worldCol, 19) < 0.5 ? -1 : 1;
-            const driftAmplitude = driftMagnitude;
-            const driftSpeed =
-              PARTICLE_DRIFT_SPEED_MIN +
-              randomForCell(row, worldCol, 20) *
-                (PARTICLE_DRIFT_SPEED_MAX - PARTICLE_DRIFT_SPEED_MIN);
-            const driftPhase = randomForCell(row, worldCol, 21) * Math.PI * 2;
-            const swirlMagnitude =
-              diameter *
-              PARTICLE_SWIRL_Z_RATIO *
-              (0.6 + randomForCell(row, worldCol, 22) * 0.9);
-            const swirlDirection = randomForCell(row, worldCol, 23) < 0.5 ? -1 : 1;
-            const swirlSpeed =
-              PARTICLE_SWIRL_SPEED_MIN +
-              randomForCell(row, worldCol, 24) *
-                (PARTICLE_SWIRL_SPEED_MAX - PARTICLE_SWIRL_SPEED_MIN);
-            const swirlPhase = randomForCell(row, worldCol, 25) * Math.PI * 2;
-            const spinMagnitude =
-              PARTICLE_SPIN_SPEED_MIN +
-              randomForCell(row, worldCol, 26) *
-                (PARTICLE_SPIN_SPEED_MAX - PARTICLE_SPIN_SPEED_MIN);
-            const spinSpeed =
-              spinMagnitude * (randomForCell(row, worldCol, 27) < 0.5 ? -1 : 1);
-            const spinPhase = randomForCell(row, worldCol, 28) * Math.PI * 2;
-            const baseXWithOffset = x + offsetX;
-            const baseYWithOffset = y + offsetY;
-            particleBuffer.push({
-              baseX: baseXWithOffset,
-              baseY: baseYWithOffset,
-              size: particleSize,
-              floatAmplitude,
-              floatSpeed,
-              floatPhase,
-              pulseSpeed,
-              pulseOffset,
-              waveStrength,
-              depthOffset,
-              baseOpacity,
-              driftAmplitude,
-              driftSpeed,
-              driftPhase,
-              driftDirection,
-              swirlAmplitude: swirlMagnitude,
-              swirlSpeed,
-              swirlPhase,
-              swirlDirection,
-              spinSpeed,
-              spinPhase,
-            });
-          }
+  // Runs after the mount effect so it always talks to the current wallpaper instance.
+  useEffect(() => {
+    const container = containerRef.current;
+    const wallpaper = wallpaperRef.current;
+    if (!container || !wallpaper) {
+      return;
+    }
+    if (!pauseWhenHidden) {
+      wallpaper.setVisible(true);
+      return;
+    }
 
-          index += 1;
-        }
-      }
+    let intersecting = true;
+    const updateVisibility = () => {
+      wallpaper.setVisible(intersecting && document.visibilityState !== "hidden");
+    };
+    updateVisibility();
 
-      instancedCircles.count = requiredCount;
-      instancedCircles.instanceMatrix.needsUpdate = true;
-      instanceOpacityAttribute.needsUpdate = true;
-
-      ensureParticleCapacity(particleBuffer.length);
-      if (instancedParticles && particleOpacityAttribute && particleBuffer.length > 0) {
-        const particleOpacityArray = particleOpacityAttribute.array as Float32Array;
-        const particleBaseOpacities = new Float32Array(particleBuffer.length);
-        tempQuaternion.identity();
-        for (let i = 0; i < particleBuffer.length; i += 1) {
-          const data = particleBuffer[i];
-          particleBaseOpacities[i] = data.baseOpacity;
-          particleOpacityArray[i] = data.baseOpacity;
-          tempScale.set(data.size, data.size, 1);
-          tempPosition.set(data.baseX, data.baseY, baseZ + data.depthOffset);
-          tempMatrix.compose(tempPosition, tempQuaternion, tempScale);
-          instancedParticles.setMatrixAt(i, tempMatrix);
-        }
-        instancedParticles.instanceMatrix.needsUpdate = true;
-        particleOpacityAttribute.needsUpdate = true;
-        particleInstancesRef.current = particleBuffer;
-        particleOpacityRef.current = particleBaseOpacities;
-      } else {
-        particleInstancesRef.current = [];
-        particleOpacityRef.current = new Float32Array(0);
-        if (particleOpacityAttribute) {
-          particleOpacityAttribute.needsUpdate = true;
-        }
+    const intersectionObserver = new IntersectionObserver((entries) => {
+      const entry = entries[entries.length - 1];
+      if (entry) {
+        intersecting = entry.isIntersecting;
+        updateVisibility();
       }
+    });
+    intersectionObserver.observe(container);
+    document.addEventListener("visibilitychange", updateVisibility);
 
-      const centerX = (minX + maxX) * 0.5;
-      const centerY = (minY + maxY) * 0.5;
-      const offsetX = -baseOffset * GRID_COS;
-      const offsetY = -baseOffset * GRID_SIN;
-      circlesGroup.position.set(-centerX + offsetX, -centerY + offsetY, 0);
-      particlesGroup.position.copy(circlesGroup.position);
-      const amplitude = normalizedWaveHeight;
-      layoutStateRef.current = {
-        hasData: true,
-        xSpacing,
-        ySpacing,
-        diameter,
-        baseZ,
-        scaleX: diameter,
-        scaleY: diameter,
-        amplitude,
-        secondaryAmplitude: secondaryWaveAmplitude,
-        rippleAmplitude: rippleWaveAmplitude,
-        waveLength: 4.0,
-      };
+    return () => {
+      intersectionObserver.disconnect();
+      document.removeEventListener("visibilitychange", updateVisibility);
     };
+  }, [pauseWhenHidden, workerRendering, sharedRenderer]);
 
-    const renderScene = (delta?: number) => {
-      if (composer) {
-        composer.render(delta);
-      } else {
-        renderer.render(scene, camera);
-      }
-    };
+  useEffect(() => {
+    wallpaperRef.current?.setEffects(effectsRef.current);
+  }, [effectsKey, workerRendering, sharedRenderer]);
 
-    const applyWaveAnimation = (timeSeconds: number) => {
-      const layoutState = layoutStateRef.current;
-      if (!layoutState.hasData) {
-        return;
-      }
-      const {
-        xSpacing,
-        amplitude,
-        secondaryAmplitude,
-        rippleAmplitude,
-        waveLength,
-        baseZ,
-        scaleX,
-        scaleY,
-      } = layoutState;
-      if (xSpacing === 0 || waveLength === 0) {
-        return;
-      }
+  useEffect(() => {
+    wallpaperRef.current?.setMotion(effectiveMotion);
+  }, [effectiveMotion, workerRendering, sharedRenderer]);
 
-      const waveParams = waveParamsRef.current;
-      const globalScrollOffset = scrollOffset;
-      const amplitudeSafe = Math.max(1e-6, amplitude);
-      let crestZ = Number.NEGATIVE_INFINITY;
-      let troughZ = Number.POSITIVE_INFINITY;
-
-      if (instancedCircles && instanceOpacityAttribute) {
-        const baseInstances = baseInstancesRef.current;
-        const baseOpacities = baseOpacityRef.current;
-        const count = instancedCircles.count;
-        if (
-          count > 0 &&
-          baseInstances.length >= count &&
-          baseOpacities.length >= count
-        ) {
-          const opacityArray = instanceOpacityAttribute.array as Float32Array;
-          tempQuaternion.identity();
-          tempScale.set(scaleX, scaleY, 1);
-
-          for (let index = 0; index < count; index += 1) {
-            const data = baseInstances[index];
-            if (!data) {
-              continue;
-            }
+  useEffect(() => {
+    wallpaperRef.current?.setTime(controlledTime);
+  }, [controlledTime, workerRendering, sharedRenderer]);
 
-            const worldX =
-              (data.worldColumn + data.shift) * xSpacing - globalScrollOffset;
-            const worldZ = data.baseY;
-
-            const primaryWave =
-              Math.sin(worldX / waveLength + timeSeconds * waveParams.speed) *
-              amplitude;
-
-            const secondaryWave =
-              Math.sin(
-                worldZ / (waveLength * 0.7) +
-                  worldX / (waveLength * 1.3) +
-                  timeSeconds * waveParams.speed * waveParams.secondaryFrequency,
-              ) * secondaryAmplitude;
-
-            const ripples =
-              Math.sin(
-                worldX * waveParams.rippleFrequencyX +
-                  worldZ * waveParams.rippleFrequencyZ +
-                  timeSeconds * waveParams.rippleSpeed,
-              ) * rippleAmplitude;
-
-            const totalWaveHeight = primaryWave + secondaryWave + ripples;
-            const circleZ = baseZ + totalWaveHeight;
-            if (circleZ > crestZ) {
-              crestZ = circleZ;
-            }
-            if (circleZ < troughZ) {
-              troughZ = circleZ;
-            }
+  useEffect(() => {
+    wallpaperRef.current?.setPaused(paused);
+  }, [paused, workerRendering, sharedRenderer]);
 
-            tempPosition.set(data.baseX, data.baseY, circleZ);
-            tempMatrix.compose(tempPosition, tempQuaternion, tempScale);
-            instancedCircles.setMatrixAt(index, tempMatrix);
-
-            const waveIntensity = THREE.MathUtils.clamp(
-              (totalWaveHeight + amplitudeSafe) / (amplitudeSafe * 2),
-              0,
-              1,
-            );
-
-            const pulsePhase =
-              (timeSeconds * waveParams.pulseSpeed +
-                worldX * waveParams.pulseSpatialX +
-                worldZ * waveParams.pulseSpatialZ) %
-              (Math.PI * 2);
-            const pulseIntensity = (Math.sin(pulsePhase) + 1) * 0.5;
-            const sharpPulse = Math.pow(pulseIntensity, 0.3);
-            const baseMultiplier = THREE.MathUtils.lerp(0.9, 1.1, waveIntensity);
-            const highlightMultiplier = THREE.MathUtils.lerp(1.0, 1.2, sharpPulse);
-            const finalMultiplier = baseMultiplier * highlightMultiplier;
-
-            opacityArray[index] = Math.min(1, baseOpacities[index] * finalMultiplier);
-          }
+  useEffect(() => {
+    wallpaperRef.current?.setPlaybackRate(effectivePlaybackRate);
+  }, [effectivePlaybackRate, workerRendering, sharedRenderer]);
 
-          instancedCircles.instanceMatrix.needsUpdate = true;
-          instanceOpacityAttribute.needsUpdate = true;
+  useEffect(() => {
+    const container = containerRef.current;
+    const wallpaper = wallpaperRef.current;
+    if (!container || !wallpaper || !pointerTracking) {
+      return;
+    }
+    if (interactionEnabled) {
+      wallpaper.setInteraction({
+        strength: interactionStrength,
+        radius: interactionRadius,
+        decay: interactionDecay,
+      });
+    }
 
-          if (crestZ !== Number.NEGATIVE_INFINITY) {
-            const farZ = troughZ !== Number.POSITIVE_INFINITY ? troughZ : crestZ;
-            updateDepthOfField(crestZ + DOF_FOCUS_FRONT_BIAS, farZ);
-          }
-        }
+    const toWallpaperPoint = (event: PointerEvent): CircleWallpaperPoint | null => {
+      const rect = container.getBoundingClientRect();
+      if (rect.width <= 0 || rect.height <= 0) {
+        return null;
       }
-
-      if (instancedParticles && particleOpacityAttribute) {
-        const particleData = particleInstancesRef.current;
-        const particleBaseOpacities = particleOpacityRef.current;
-        const particleCount = instancedParticles.count;
-        if (
-          particleCount > 0 &&
-          particleData.length >= particleCount &&
-          particleBaseOpacities.length >= particleCount
-        ) {
-          const particleOpacityArray = particleOpacityAttribute.array as Float32Array;
-
-          for (let index = 0; index < particleCount; index += 1) {
-            const data = particleData[index];
-            if (!data) {
-              continue;
-            }
-
-            const worldX = data.baseX - globalScrollOffset;
-            const worldZ = data.baseY;
-
-            const primaryWave =
-              Math.sin(worldX / waveLength + timeSeconds * waveParams.speed) * amplitude;
-            const secondaryWave =
-              Math.sin(
-                worldZ / (waveLength * 0.7) +
-                  worldX / (waveLength * 1.3) +
-                  timeSeconds * waveParams.speed * waveParams.secondaryFrequency,
-              ) * secondaryAmplitude;
-            const ripples =
-              Math.sin(
-                worldX * waveParams.rippleFrequencyX +
-                  worldZ * waveParams.rippleFrequencyZ +
-                  timeSeconds * waveParams.rippleSpeed,
-              ) * rippleAmplitude;
-
-            const combinedWave =
-              (primaryWave + secondaryWave * 0.6 + ripples * 0.45) * data.waveStrength;
-
-            const floatOffset =
-              Math.sin(timeSeconds * data.floatSpeed + data.floatPhase) * data.floatAmplitude;
-            const driftOffset =
-              Math.sin(timeSeconds * data.driftSpeed + data.driftPhase) *
-              data.driftAmplitude *
-              data.driftDirection;
-            const swirlOffset =
-              Math.sin(timeSeconds * data.swirlSpeed + data.swirlPhase) *
-              data.swirlAmplitude *
-              data.swirlDirection;
-            const spinAngle = timeSeconds * data.spinSpeed + data.spinPhase;
-
-            tempScale.set(data.size, data.size, 1);
-            tempQuaternion.setFromAxisAngle(PARTICLE_SPIN_AXIS, spinAngle);
-            tempPosition.set(
-              data.baseX + driftOffset,
-              data.baseY + floatOffset,
-              baseZ + combinedWave + data.depthOffset + swirlOffset,
-            );
-            tempMatrix.compose(tempPosition, tempQuaternion, tempScale);
-            instancedParticles.setMatrixAt(index, tempMatrix);
-
-            const pulse =
-              1 -
-              PARTICLE_PULSE_STRENGTH +
-              Math.sin(timeSeconds * data.pulseSpeed + data.pulseOffset) * PARTICLE_PULSE_STRENGTH;
-            const shimmer =
-              1 -
-              PARTICLE_SHIMMER_STRENGTH +
-              Math.sin(timeSeconds * (data.pulseSpeed * 0.5 + 0.3) + data.floatPhase) *
-                PARTICLE_SHIMMER_STRENGTH;
-
-            const waveGlow = THREE.MathUtils.lerp(
-              0.92,
-              1.18,
-              THREE.MathUtils.clamp(Math.abs(combinedWave) / (amplitudeSafe + 1e-6), 0, 1),
-            );
-
-            const finalOpacity = THREE.MathUtils.clamp(
-              particleBaseOpacities[index] * pulse * shimmer * waveGlow,
-              0,
-              1,
-            );
-            particleOpacityArray[index] = finalOpacity;
-          }
-
-          instancedParticles.instanceMatrix.needsUpdate = true;
-          particleOpacityAttribute.needsUpdate = true;
-        }
+      const x = (event.clientX - rect.left) / rect.width;
+      const y = (event.clientY - rect.top) / rect.height;
+      return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+    };
+    const handlePointerMove = (event: PointerEvent) => {
+      wallpaper.setPointer(toWallpaperPoint(event));
+    };
+    const handlePointerDown = (event: PointerEvent) => {
+      const point = toWallpaperPoint(event);
+      wallpaper.setPointer(point);
+      if (point) {
+        wallpaper.addRipple(point);
       }
     };
-
-    const updateSize = () => {
-      const { clientWidth, clientHeight } = container;
-      if (clientWidth === 0 || clientHeight === 0) {
-        return;
+    // Touch and pen pointers vanish when lifted; the mouse keeps hovering.
+    const handlePointerUp = (event: PointerEvent) => {
+      if (event.pointerType !== "mouse") {
+        wallpaper.setPointer(null);
       }
-
-      renderer.setPixelRatio(Math.min(window.devicePixelRatio, 1.7));
-      renderer.setSize(clientWidth, clientHeight, false);
-
-      if (composer) {
-        composer.setPixelRatio(renderer.getPixelRatio());
-        composer.setSize(clientWidth, clientHeight);
+    };
+    const handlePointerOut = (event: PointerEvent) => {
+      if (!event.relatedTarget) {
+        wallpaper.setPointer(null);
       }
+    };
+    const handlePointerCancel = () => {
+      wallpaper.setPointer(null);
+    };
 
-      camera.aspect = clientWidth / clientHeight;
-      camera.updateProjectionMatrix();
+    window.addEventListener("pointermove", handlePointerMove, { passive: true });
+    window.addEventListener("pointerdown", handlePointerDown, { passive: true });
+    window.addEventListener("pointerup", handlePointerUp, { passive: true });
+    window.addEventListener("pointercancel", handlePointerCancel, { passive: true });
+    document.addEventListener("pointerout", handlePointerOut, { passive: true });
 
-      if (bokehPass) {
-        bokehPass.uniforms.aspect.value = camera.aspect;
-      }
-      updateDepthOfField(defaultFocusTargetZ, defaultFarTargetZ);
-
-      const distanceToPlane = Math.max(camera.position.z - GRID_PLANE_Z, 0.01);
-      const verticalFov = THREE.MathUtils.degToRad(camera.fov);
-      const viewHeight = 2 * Math.tan(verticalFov / 2) * distanceToPlane;
-      const viewWidth = viewHeight * camera.aspect;
-
-      currentWidth = clientWidth;
-      currentHeight = clientHeight;
-      currentViewWidth = viewWidth;
-      currentViewHeight = viewHeight;
-      scrollOffset = 0;
-      layoutBaseOffset = 0;
-      worldColumnOffset = 0;
-      scrollGroup.position.set(0, 0, 0);
-      lastTimestamp = null;
-      layoutCircles(currentViewWidth, currentViewHeight, worldColumnOffset);
-      applyWaveAnimation(0);
-      renderScene();
+    return () => {
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerdown", handlePointerDown);
+      window.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointercancel", handlePointerCancel);
+      document.removeEventListener("pointerout", handlePointerOut);
+      wallpaper.setPointer(null);
+      wallpaper.setInteraction(null);
     };
+  }, [
+    pointerTracking,
+    interactionEnabled,
+    interactionStrength,
+    interactionRadius,
+    interactionDecay,
+    workerRendering,
+    sharedRenderer,
+  ]);
 
-    const loader = new THREE.TextureLoader();
-    loader.load(
-      "/circle.svg",
-      (texture) => {
-        texture.colorSpace = THREE.SRGBColorSpace;
-        texture.generateMipmaps = true;
-        texture.anisotropy = Math.min(4, renderer.capabilities.getMaxAnisotropy());
-        circleMaterial.map = texture;
-        circleMaterial.opacity = 1;
-        circleMaterial.needsUpdate = true;
-        renderScene();
-      },
-      undefined,
-      () => {
-        console.warn("Failed to load circle.svg texture");
-      },
-    );
-
-    updateSize();
+  useEffect(() => {
+    const container = containerRef.current;
+    const wallpaper = wallpaperRef.current;
+    if (!container || !wallpaper) {
+      return;
+    }
+    const sources: HighlightSource[] = [
+      ...(JSON.parse(highlightsKey) as CircleWallpaperHighlightProp[]).map(
+        ({ target, ...style }) => ({ target, style: resolveHighlightStyle(style) }),
+      ),
+      ...registeredHighlightsRef.current,
+    ];
+    if (sources.length === 0) {
+      return;
+    }
 
-    const animate = (timestamp: number) => {
-      if (animationStopped) {
-        return;
-      }
-      const timeSeconds = timestamp / 1000;
-      if (lastTimestamp === null) {
-        lastTimestamp = timestamp;
-        applyWaveAnimation(timeSeconds);
-        renderScene();
-        return;
-      }
-      const deltaSeconds = (timestamp - lastTimestamp) / 1000;
-      lastTimestamp = timestamp;
-      if (deltaSeconds <= 0) {
-        renderScene(deltaSeconds);
-        return;
+    // Regions are measured when something may have moved them, coalesced to one measurement a
+    // frame. Only a running CSS animation or transition keeps measuring every frame, and only
+    // while the wallpaper is animating on screen.
+    let intersecting = true;
+    const canPoll = () =>
+      !paused &&
+      effectiveMotion !== "none" &&
+      (!pauseWhenHidden || (intersecting && document.visibilityState !== "hidden"));
+    let elements: Element[] = [];
+    let sentKey = "";
+    const resizeObserver = new ResizeObserver(() => {
+      scheduleMeasure();
+    });
+    const intersectionObserver = new IntersectionObserver((entries) => {
+      for (const entry of entries) {
+        if (entry.target === container) {
+          intersecting = entry.isIntersecting;
+        }
       }
+      scheduleMeasure();
+    });
+    const observe = (element: Element) => {
+      resizeObserver.observe(element);
+      intersectionObserver.observe(element);
+    };
+    observe(container);
 
-      if (
-        currentWidth <= 0 ||
-        currentHeight <= 0 ||
-        currentViewWidth <= 0 ||
-        currentViewHeight <= 0
-      ) {
-        renderScene();
+    const measure = () => {
+      const bounds = container.getBoundingClientRect();
+      if (bounds.width <= 0 || bounds.height <= 0) {
         return;
       }
-
-      scrollOffset += deltaSeconds * HORIZONTAL_SCROLL_SPEED;
-      const spacing = currentXSpacing > 0 ? currentXSpacing : 1;
-      let offsetDelta = scrollOffset - worldColumnOffset * spacing - layoutBaseOffset;
-      let layoutNeedsUpdate = false;
-      if (Math.abs(offsetDelta) >= spacing) {
-        const steps = Math.trunc(offsetDelta / spacing);
-        if (steps !== 0) {
-          worldColumnOffset += steps;
-          layoutNeedsUpdate = true;
+      const nextElements: Element[] = [];
+      const next = sources.flatMap(({ target, style }): CircleWallpaperHighlight[] => {
+        const resolved = resolveHighlightTarget(target);
+        if (resolved instanceof Element) {
+          nextElements.push(resolved);
+          if (!elements.includes(resolved)) {
+            observe(resolved);
+          }
+        }
+        const rect = readHighlightRect(resolved);
+        if (!rect) {
+          return [];
+        }
+        return [
+          {
+            x: (rect.left - style.padding - bounds.left) / bounds.width,
+            y: (rect.top - style.padding - bounds.top) / bounds.height,
+            width: Math.max(0, rect.width + style.padding * 2) / bounds.width,
+            height: Math.max(0, rect.height + style.padding * 2) / bounds.height,
+            falloff: style.falloff / bounds.height,
+            opacity: style.opacity,
+            outsideOpacity: style.outsideOpacity,
+            wave: style.wave,
+          },
+        ];
+      });
+      for (const element of elements) {
+        if (element !== container && !nextElements.includes(element)) {
+          resizeObserver.unobserve(element);
+          intersectionObserver.unobserve(element);
         }
       }
-
-      if (layoutNeedsUpdate && currentViewWidth > 0 && currentViewHeight > 0) {
-        layoutCircles(currentViewWidth, currentViewHeight, worldColumnOffset);
-        offsetDelta = scrollOffset - worldColumnOffset * spacing - layoutBaseOffset;
+      elements = nextElements;
+      const nextKey = toValueKey(next);
+      if (nextKey !== sentKey) {
+        sentKey = nextKey;
+        wallpaper.setHighlights(next);
       }
-
-      applyWaveAnimation(timeSeconds);
-
-      const worldX = -offsetDelta * GRID_COS;
-      const worldY = -offsetDelta * GRID_SIN;
-      scrollGroup.position.set(worldX, worldY, 0);
-      renderScene(deltaSeconds);
     };
 
-    renderer.setAnimationLoop(animate);
-
-    const resizeObserver = new ResizeObserver(() => {
-      updateSize();
-    });
-    resizeObserver.observe(container);
+    let frameRequest = 0;
+    const measureFrame = () => {
+      frameRequest = 0;
+      measure();
+      if (canPoll() && isAnimatingAny([container, ...elements])) {
+        frameRequest = requestAnimationFrame(measureFrame);
+      }
+    };
+    const scheduleMeasure = () => {
+      if (frameRequest === 0) {
+        frameRequest = requestAnimationFrame(measureFrame);
+      }
+    };
+    // Measured right away so a re-run never leaves a frame without regions.
+    measureFrame();
 
-    window.addEventListener("resize", updateSize);
-    window.addEventListener("orientationchange", updateSize);
+    // Capturing catches scrolling in nested containers as well as the page.
+    const listenerOptions = { capture: true, passive: true };
+    window.addEventListener("scroll", scheduleMeasure, listenerOptions);
+    window.addEventListener("resize", scheduleMeasure);
+    document.addEventListener("visibilitychange", scheduleMeasure);
+    document.addEventListener("animationstart", scheduleMeasure, listenerOptions);
+    document.addEventListener("transitionrun", scheduleMeasure, listenerOptions);
 
     return () => {
-      window.removeEventListener("resize", updateSize);
-      window.removeEventListener("orientationchange", updateSize);
+      cancelAnimationFrame(frameRequest);
+      window.removeEventListener("scroll", scheduleMeasure, listenerOptions);
+      window.removeEventListener("resize", scheduleMeasure);
+      document.removeEventListener("visibilitychange", scheduleMeasure);
+      document.removeEventListener("animationstart", scheduleMeasure, listenerOptions);
+      document.removeEventListener("transitionrun", scheduleMeasure, listenerOptions);
       resizeObserver.disconnect();
-      animationStopped = true;
-      renderer.setAnimationLoop(null);
-      if (renderer.domElement.parentElement === container) {
-        container.removeChild(renderer.domElement);
-      }
-      if (composer) {
-        composer.dispose();
-      }
-      composer = null;
-      bokehPass = null;
-      if (instancedCircles) {
-        circlesGroup.remove(instancedCircles);
-        instancedCircles.dispose();
-      }
-      instancedCircles = null;
-      instanceOpacityAttribute = null;
-      instanceCapacity = 0;
-      if (instancedParticles) {
-        particlesGroup.remove(instancedParticles);
-        instancedParticles.dispose();
-      }
-      instancedParticles = null;
-      particleOpacityAttribute = null;
-      particleInstanceCapacity = 0;
-      baseInstancesRef.current = [];
-      baseOpacityRef.current = new Float32Array(0);
-      particleInstancesRef.current = [];
-      particleOpacityRef.current = new Float32Array(0);
-      layoutStateRef.current = {
-        hasData: false,
-        xSpacing: 1,
-        ySpacing: 1,
-        diameter: 1,
-        baseZ: GRID_PLANE_Z,
-        scaleX: 1,
-        scaleY: 1,
-        amplitude: normalizedWaveHeight,
-        secondaryAmplitude: secondaryWaveAmplitude,
-        rippleAmplitude: rippleWaveAmplitude,
-        waveLength: 4,
-      };
-      circleGeometry.dispose();
-      circleMaterial.dispose();
-      particleGeometry.dispose();
-      particleMaterial.dispose();
-      particleTexture.dispose();
-      renderer.dispose();
+      intersectionObserver.disconnect();
+      wallpaper.setHighlights([]);
     };
   }, [
-    effectiveCameraDistance,
-    normalizedWaveHeight,
-    secondaryWaveAmplitude,
-    rippleWaveAmplitude,
-    translationX,
-    translationY,
-    translationZ,
-    rotationX,
-    rotationY,
-    rotationZ,
-    normalizedBlurIntensity,
+    highlightsKey,
+    highlightVersion,
+    paused,
+    effectiveMotion,
+    pauseWhenHidden,
+    workerRendering,
+    sharedRenderer,
   ]);
 
+  useEffect(() => {
+    const wallpaper = wallpaperRef.current;
+    if (!wallpaper) {
+      return;
+    }
+    let cancelled = false;
+    loadCircleImage(circleTextureUrl, (image) => {
+      if (!cancelled) {
+        wallpaper.setCircleImage(image);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [circleTextureUrl, workerRendering, sharedRenderer]);
+
   return (
     <div
       ref={containerRef}
       style={{ position: "fixed", inset: 0, overflow: "hidden", ...style }}
-    />
+    >
+      {failed
+        ? (fallback ?? (
+            <CircleWallpaperFallback
+              theme={{ background, circleTint, circleTextureUrl }}
+              grid={resolvedGrid}
+            />
+          ))
+        : null}
+    </div>
   );
 }
 
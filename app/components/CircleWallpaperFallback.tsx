@@ -0,0 +1,135 @@
+// app/components/CircleWallpaperFallback.tsx
+import { useEffect, useState, type CSSProperties } from "react";
+import { DEFAULT_GRID, type CircleWallpaperGrid } from "./circleWallpaperGrid";
+import { CIRCLE_WALLPAPER_THEMES, type CircleWallpaperTheme } from "./circleWallpaperTheme";
+
+// Tile pixels per circle diameter.
+const TILE_RESOLUTION = 64;
+const CIRCLE_OPACITY = 0.35;
+
+export type CircleWallpaperFallbackProps = {
+  // Circles are the theme's texture multiplied by its tint, as in WebGL.
+  theme?: Pick<CircleWallpaperTheme, "background" | "circleTint" | "circleTextureUrl">;
+  // Rotation, spacing and stagger carry over as they are. Radial and spiral lattices are drawn
+  // as rows, and cell sizes in world units fall back to the default size, since the fallback has
+  // no camera to measure them with.
+  grid?: CircleWallpaperGrid;
+  style?: CSSProperties;
+};
+
+// One repeat of the lattice: a circle centered in the upper row and the staggered lower row,
+// wrapped around the tile edges. Null when the canvas is unavailable or the texture is
+// cross-origin.
+function drawTile(
+  image: HTMLImageElement,
+  tint: string,
+  spacingX: number,
+  spacingY: number,
+  stagger: number,
+) {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(spacingX * TILE_RESOLUTION));
+  canvas.height = Math.max(1, Math.round(spacingY * 2 * TILE_RESOLUTION));
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return null;
+  }
+  const { width, height } = canvas;
+  // Tight spacings overlap circles across more than one tile edge.
+  const wrapX = Math.ceil(TILE_RESOLUTION / width);
+  const wrapY = Math.ceil(TILE_RESOLUTION / height);
+  // Staggers a whole column apart look the same, so the lower row is kept inside the tile.
+  const lowerX = 0.5 + stagger - Math.floor(0.5 + stagger);
+  const centers = [
+    [width * 0.5, height * 0.25],
+    [width * lowerX, height * 0.75],
+  ];
+  const drawCircles = () => {
+    for (const [centerX, centerY] of centers) {
+      for (let column = -wrapX; column <= wrapX; column += 1) {
+        for (let row = -wrapY; row <= wrapY; row += 1) {
+          context.drawImage(
+            image,
+            centerX + column * width - TILE_RESOLUTION / 2,
+            centerY + row * height - TILE_RESOLUTION / 2,
+            TILE_RESOLUTION,
+            TILE_RESOLUTION,
+          );
+        }
+      }
+    }
+  };
+  drawCircles();
+  context.globalCompositeOperation = "multiply";
+  context.fillStyle = tint;
+  context.fillRect(0, 0, width, height);
+  // Multiplying fills the gaps too; cut them back out with the circles' alpha.
+  context.globalCompositeOperation = "destination-in";
+  drawCircles();
+  try {
+    return canvas.toDataURL();
+  } catch {
+    return null;
+  }
+}
+
+// Static CSS approximation of the wallpaper for when WebGL is unavailable. The circles appear
+// once the texture has loaded.
+export function CircleWallpaperFallback({
+  theme = CIRCLE_WALLPAPER_THEMES.light,
+  grid = DEFAULT_GRID,
+  style,
+}: CircleWallpaperFallbackProps = {}) {
+  const { background, circleTint, circleTextureUrl } = theme;
+  const { rotation, spacingX, spacingY, stagger } = grid;
+  const { width, height } = (
+    typeof grid.cellSize === "number" ? DEFAULT_GRID.cellSize : grid.cellSize
+  ) as { width: number; height: number };
+  const diameter = `min(${width * 100}cqw, ${height * 100}cqh)`;
+  const [tile, setTile] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (!cancelled) {
+        setTile(drawTile(image, circleTint, spacingX, spacingY, stagger));
+      }
+    };
+    image.src = circleTextureUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [circleTextureUrl, circleTint, spacingX, spacingY, stagger]);
+
+  return (
+    <div
+      aria-hidden
+      style={{
+        position: "absolute",
+        inset: 0,
+        overflow: "hidden",
+        pointerEvents: "none",
+        background,
+        containerType: "size",
+        ...style,
+      }}
+    >
+      {tile ? (
+        <div
+          style={{
+            position: "absolute",
+            inset: "-50%",
+            // The grid turns counterclockwise with y up; CSS rotates clockwise with y down.
+            transform: `rotate(${-rotation}rad)`,
+            opacity: CIRCLE_OPACITY,
+            backgroundImage: `url(${tile})`,
+            backgroundSize: `calc(${diameter} * ${spacingX}) calc(${diameter} * ${spacingY * 2})`,
+          }}
+        />
+      ) : null}
+    </div>
+  );
+}
+
+export default CircleWallpaperFallback;
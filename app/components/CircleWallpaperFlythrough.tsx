@@ -0,0 +1,288 @@
+// app/components/CircleWallpaperFlythrough.tsx
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  CircleWallpaper,
+  DEFAULT_BLUR_INTENSITY,
+  DEFAULT_CAMERA_DISTANCE,
+  DEFAULT_WAVE_HEIGHT,
+  type CameraVector,
+  type CircleWallpaperHandle,
+  type CircleWallpaperProps,
+  type CircleWallpaperThemeProp,
+  type WaveParams,
+} from "./CircleWallpaper";
+import { resolveWaveParams } from "./circleWallpaperScene";
+import { resolveEasing, type CircleWallpaperEasing } from "./circleWallpaperTransition";
+import { toValueKey } from "./circleWallpaperValueKey";
+
+const DEFAULT_THRESHOLD = 0.5;
+
+export type CircleWallpaperKeyframe = {
+  // CSS selector of the page section this keyframe belongs to.
+  section: string;
+  // Scroll trigger: how far the section has scrolled past the top of the viewport, from 0 (its
+  // top edge at the top of the viewport) to 1 (its bottom edge there).
+  at?: number;
+  // Intersection trigger: the share of the section that has to be visible for it to take over.
+  threshold?: number;
+  // Scroll trigger: the curve used on the way from the previous keyframe to this one.
+  easing?: CircleWallpaperEasing;
+  // Values left out carry over from the previous keyframe.
+  cameraDistance?: number;
+  cameraTranslation?: CameraVector;
+  cameraRotation?: CameraVector;
+  waveHeight?: number;
+  blurIntensity?: number;
+  // Switches at the keyframe nearest the scroll position; themes are not blended.
+  theme?: CircleWallpaperThemeProp;
+};
+
+export type CircleWallpaperFlythroughProps = Omit<
+  CircleWallpaperProps,
+  | "ref"
+  | "cameraDistance"
+  | "cameraTranslation"
+  | "cameraRotation"
+  | "waveHeight"
+  | "blurIntensity"
+  | "theme"
+> & {
+  keyframes: CircleWallpaperKeyframe[];
+  // "scroll" scrubs between keyframes with the scroll position; "intersection" tweens to a
+  // keyframe once its section crosses its threshold, using the transition prop.
+  trigger?: "scroll" | "intersection";
+};
+
+type FlythroughState = {
+  cameraDistance: number;
+  cameraTranslation: Required<CameraVector>;
+  cameraRotation: Required<CameraVector>;
+  waveHeight: number;
+  blurIntensity: number;
+  theme: CircleWallpaperThemeProp | undefined;
+};
+
+const finiteOr = (value: number | undefined, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+const mergeVector = (current: Required<CameraVector>, next: CameraVector | undefined) => ({
+  x: finiteOr(next?.x, current.x),
+  y: finiteOr(next?.y, current.y),
+  z: finiteOr(next?.z, current.z),
+});
+
+const lerp = (from: number, to: number, progress: number) => from + (to - from) * progress;
+
+const lerpVector = (
+  from: Required<CameraVector>,
+  to: Required<CameraVector>,
+  progress: number,
+) => ({
+  x: lerp(from.x, to.x, progress),
+  y: lerp(from.y, to.y, progress),
+  z: lerp(from.z, to.z, progress),
+});
+
+const INITIAL_STATE: FlythroughState = {
+  cameraDistance: DEFAULT_CAMERA_DISTANCE,
+  cameraTranslation: { x: 0, y: 0, z: 0 },
+  cameraRotation: { x: 0, y: 0, z: 0 },
+  waveHeight: DEFAULT_WAVE_HEIGHT,
+  blurIntensity: DEFAULT_BLUR_INTENSITY,
+  theme: undefined,
+};
+
+// Fills every keyframe in with the values carried over from the ones before it.
+function resolveStates(keyframes: CircleWallpaperKeyframe[]) {
+  let state = INITIAL_STATE;
+  return keyframes.map((keyframe) => {
+    state = {
+      cameraDistance: finiteOr(keyframe.cameraDistance, state.cameraDistance),
+      cameraTranslation: mergeVector(state.cameraTranslation, keyframe.cameraTranslation),
+      cameraRotation: mergeVector(state.cameraRotation, keyframe.cameraRotation),
+      waveHeight: Math.max(0, finiteOr(keyframe.waveHeight, state.waveHeight)),
+      blurIntensity: Math.max(0, finiteOr(keyframe.blurIntensity, state.blurIntensity)),
+      theme: keyframe.theme ?? state.theme,
+    };
+    return state;
+  });
+}
+
+// Document scroll offset at which each keyframe is reached; null when its section is missing.
+function measureKeyframes(keyframes: CircleWallpaperKeyframe[]) {
+  return keyframes.map((keyframe) => {
+    const section = document.querySelector(keyframe.section);
+    if (!section) {
+      return null;
+    }
+    const rect = section.getBoundingClientRect();
+    return rect.top + window.scrollY + finiteOr(keyframe.at, 0) * rect.height;
+  });
+}
+
+// One fixed wallpaper behind the whole page whose camera, wave height, blur and theme follow
+// keyframes tied to the page's sections.
+export function CircleWallpaperFlythrough({
+  keyframes,
+  trigger = "scroll",
+  transition,
+  wave,
+  ...wallpaperProps
+}: CircleWallpaperFlythroughProps) {
+  const keyframesKey = toValueKey(keyframes);
+  const waveKey = toValueKey(wave);
+  const states = useMemo(() => resolveStates(JSON.parse(keyframesKey)), [keyframesKey]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const handleRef = useRef<CircleWallpaperHandle>(null);
+  const scrolling = trigger === "scroll";
+
+  useEffect(() => {
+    if (!scrolling) {
+      return;
+    }
+    const parsedKeyframes: CircleWallpaperKeyframe[] = JSON.parse(keyframesKey);
+    const frames = resolveStates(parsedKeyframes).map((state, index) => ({
+      state,
+      ease: resolveEasing(parsedKeyframes[index].easing ?? "linear"),
+      index,
+    }));
+    const parsedWave: Partial<WaveParams> | null = JSON.parse(waveKey);
+    // Resolved like the waveHeight prop, so scrolling onto a keyframe shows the same wave as
+    // passing its waveHeight would.
+    const waveAt = (waveHeight: number) => resolveWaveParams(parsedWave ?? undefined, waveHeight);
+    let positioned: Array<(typeof frames)[number] & { position: number }> = [];
+    let frameRequest: number | null = null;
+
+    const measure = () => {
+      const positions = measureKeyframes(parsedKeyframes);
+      positioned = frames
+        .flatMap((frame, index) => {
+          const position = positions[index];
+          return position === null ? [] : [{ ...frame, position }];
+        })
+        .sort((a, b) => a.position - b.position);
+    };
+
+    // Handle updates skip the re-render and apply at once, so the camera tracks the scrollbar.
+    const update = () => {
+      frameRequest = null;
+      const handle = handleRef.current;
+      if (!handle || positioned.length === 0) {
+        return;
+      }
+      const scrollY = window.scrollY;
+      let next = positioned.findIndex((frame) => frame.position > scrollY);
+      if (next === -1) {
+        next = positioned.length - 1;
+      }
+      const to = positioned[next];
+      const from = positioned[Math.max(0, next - 1)];
+      const span = to.position - from.position;
+      const linearProgress =
+        span > 0 ? Math.min(1, Math.max(0, (scrollY - from.position) / span)) : 1;
+      const progress = to.ease(linearProgress);
+      handle.setCamera({
+        distance: lerp(from.state.cameraDistance, to.state.cameraDistance, progress),
+        translation: lerpVector(
+          from.state.cameraTranslation,
+          to.state.cameraTranslation,
+          progress,
+        ),
+        rotation: lerpVector(from.state.cameraRotation, to.state.cameraRotation, progress),
+      });
+      handle.setWave(waveAt(lerp(from.state.waveHeight, to.state.waveHeight, progress)));
+      handle.setBlur(lerp(from.state.blurIntensity, to.state.blurIntensity, progress));
+      setActiveIndex(linearProgress < 0.5 ? from.index : to.index);
+    };
+
+    const requestUpdate = () => {
+      if (frameRequest === null) {
+        frameRequest = requestAnimationFrame(update);
+      }
+    };
+
+    const handleResize = () => {
+      measure();
+      requestUpdate();
+    };
+
+    measure();
+    update();
+    // Sections move when anything above them changes size, not only on window resizes.
+    const resizeObserver = new ResizeObserver(handleResize);
+    resizeObserver.observe(document.body);
+    window.addEventListener("scroll", requestUpdate, { passive: true });
+    window.addEventListener("resize", handleResize);
+
+    return () => {
+      if (frameRequest !== null) {
+        cancelAnimationFrame(frameRequest);
+      }
+      resizeObserver.disconnect();
+      window.removeEventListener("scroll", requestUpdate);
+      window.removeEventListener("resize", handleResize);
+    };
+  }, [keyframesKey, waveKey, scrolling]);
+
+  useEffect(() => {
+    if (scrolling) {
+      return;
+    }
+    const parsedKeyframes: CircleWallpaperKeyframe[] = JSON.parse(keyframesKey);
+    const ratios = new Map<Element, number>();
+    const sections = parsedKeyframes.map((keyframe) => document.querySelector(keyframe.section));
+    const thresholds = parsedKeyframes.map((keyframe) =>
+      Math.min(1, Math.max(0, finiteOr(keyframe.threshold, DEFAULT_THRESHOLD))),
+    );
+
+    // The last keyframe in the list whose section is visible enough wins; when none is, the
+    // current one stays.
+    const intersectionObserver = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          ratios.set(entry.target, entry.isIntersecting ? entry.intersectionRatio : 0);
+        }
+        for (let index = sections.length - 1; index >= 0; index -= 1) {
+          const section = sections[index];
+          if (section && (ratios.get(section) ?? 0) >= thresholds[index]) {
+            setActiveIndex(index);
+            return;
+          }
+        }
+      },
+      { threshold: [...new Set([0, ...thresholds])] },
+    );
+    for (const section of new Set(sections)) {
+      if (section) {
+        intersectionObserver.observe(section);
+      }
+    }
+
+    return () => {
+      intersectionObserver.disconnect();
+    };
+  }, [keyframesKey, scrolling]);
+
+  // While scrolling, the camera props only seed the first frame; the handle drives the rest.
+  const active = states[Math.min(activeIndex, states.length - 1)] ?? INITIAL_STATE;
+  const initial = scrolling ? (states[0] ?? INITIAL_STATE) : active;
+
+  return (
+    <CircleWallpaper
+      {...wallpaperProps}
+      ref={handleRef}
+      cameraDistance={initial.cameraDistance}
+      cameraTranslation={initial.cameraTranslation}
+      cameraRotation={initial.cameraRotation}
+      wave={wave}
+      waveHeight={initial.waveHeight}
+      blurIntensity={initial.blurIntensity}
+      theme={active.theme}
+      transition={scrolling ? false : transition}
+    />
+  );
+}
+
+export default CircleWallpaperFlythrough;
@@ -0,0 +1,126 @@
+// app/components/CircleWallpaperProvider.tsx
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type CSSProperties,
+  type ReactNode,
+} from "react";
+import {
+  DEFAULT_MAX_QUALITY,
+  DEFAULT_MIN_QUALITY,
+  isCircleWallpaperQuality,
+  type CircleWallpaperQuality,
+} from "./circleWallpaperQuality";
+import {
+  createSharedCircleWallpaperRenderer,
+  type SharedCircleWallpaperRenderer,
+} from "./circleWallpaperScene";
+
+const CircleWallpaperContext = createContext<SharedCircleWallpaperRenderer | null>(null);
+
+export function useSharedCircleWallpaperRenderer() {
+  return useContext(CircleWallpaperContext);
+}
+
+export type CircleWallpaperProviderProps = {
+  children?: ReactNode;
+  // Applied to the fixed canvas that every nested CircleWallpaper draws into.
+  style?: CSSProperties;
+  minQuality?: CircleWallpaperQuality;
+  maxQuality?: CircleWallpaperQuality;
+  onQualityChange?: (quality: CircleWallpaperQuality) => void;
+};
+
+export function CircleWallpaperProvider({
+  children,
+  style,
+  minQuality = DEFAULT_MIN_QUALITY,
+  maxQuality = DEFAULT_MAX_QUALITY,
+  onQualityChange,
+}: CircleWallpaperProviderProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [sharedRenderer] = useState(createSharedCircleWallpaperRenderer);
+  const effectiveMinQuality = isCircleWallpaperQuality(minQuality) ? minQuality : DEFAULT_MIN_QUALITY;
+  const effectiveMaxQuality = isCircleWallpaperQuality(maxQuality) ? maxQuality : DEFAULT_MAX_QUALITY;
+
+  useEffect(() => {
+    sharedRenderer.setQualityListener(onQualityChange);
+  }, [sharedRenderer, onQualityChange]);
+
+  useEffect(() => {
+    sharedRenderer.setQualityRange(effectiveMinQuality, effectiveMaxQuality);
+  }, [sharedRenderer, effectiveMinQuality, effectiveMaxQuality]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+
+    const readViewport = () => ({
+      width: canvas.clientWidth,
+      height: canvas.clientHeight,
+      pixelRatio: window.devicePixelRatio,
+    });
+
+    sharedRenderer.mount(canvas, readViewport());
+
+    const updateSize = () => {
+      sharedRenderer.resize(readViewport());
+    };
+    const updateVisibility = () => {
+      sharedRenderer.setVisible(document.visibilityState !== "hidden");
+    };
+    updateVisibility();
+
+    const resizeObserver = new ResizeObserver(() => {
+      updateSize();
+    });
+    resizeObserver.observe(canvas);
+
+    // Frozen wallpapers have no loop to follow their containers, so redraw as the page scrolls.
+    const refresh = () => {
+      sharedRenderer.refresh();
+    };
+
+    window.addEventListener("resize", updateSize);
+    window.addEventListener("orientationchange", updateSize);
+    window.addEventListener("scroll", refresh, { capture: true, passive: true });
+    document.addEventListener("visibilitychange", updateVisibility);
+
+    return () => {
+      window.removeEventListener("resize", updateSize);
+      window.removeEventListener("orientationchange", updateSize);
+      window.removeEventListener("scroll", refresh, { capture: true });
+      document.removeEventListener("visibilitychange", updateVisibility);
+      resizeObserver.disconnect();
+      sharedRenderer.unmount();
+    };
+  }, [sharedRenderer]);
+
+  return (
+    <CircleWallpaperContext.Provider value={sharedRenderer}>
+      <canvas
+        ref={canvasRef}
+        style={{
+          position: "fixed",
+          inset: 0,
+          width: "100%",
+          height: "100%",
+          display: "block",
+          pointerEvents: "none",
+          zIndex: -1,
+          ...style,
+        }}
+      />
+      {children}
+    </CircleWallpaperContext.Provider>
+  );
+}
+
+export default CircleWallpaperProvider;
@@ -0,0 +1,198 @@
+// app/components/circleWallpaper.worker.ts
+import type { CircleWallpaperQuality } from "./circleWallpaperQuality";
+import {
+  createCircleWallpaperRenderer,
+  toError,
+  type CircleWallpaperCamera,
+  type CircleWallpaperHighlight,
+  type CircleWallpaperInteraction,
+  type CircleWallpaperMotion,
+  type CircleWallpaperPoint,
+  type CircleWallpaperRenderer,
+  type CircleWallpaperSceneOptions,
+  type CircleWallpaperStats,
+  type CircleWallpaperViewport,
+  type WaveParams,
+} from "./circleWallpaperScene";
+import type { CircleWallpaperBuiltInEffect } from "./circleWallpaperEffects";
+import type { CircleWallpaperIntensityMap } from "./circleWallpaperIntensity";
+import type { CircleWallpaperTheme } from "./circleWallpaperTheme";
+import type { CircleWallpaperTransition } from "./circleWallpaperTransition";
+import { getWaveField, registerWaveField } from "./circleWallpaperWaveFields";
+
+export type CircleWallpaperWorkerMessage =
+  | {
+      type: "init";
+      canvas: OffscreenCanvas;
+      options: CircleWallpaperSceneOptions;
+      viewport: CircleWallpaperViewport;
+      minQuality: CircleWallpaperQuality;
+      maxQuality: CircleWallpaperQuality;
+    }
+  | { type: "resize"; viewport: CircleWallpaperViewport }
+  | { type: "options"; options: CircleWallpaperSceneOptions }
+  | { type: "transition"; transition: CircleWallpaperTransition }
+  | { type: "theme"; theme: CircleWallpaperTheme }
+  | { type: "circleImage"; image: ImageBitmap }
+  | { type: "visibility"; visible: boolean }
+  | { type: "motion"; motion: CircleWallpaperMotion }
+  | { type: "time"; seconds: number | null }
+  | { type: "paused"; paused: boolean }
+  | { type: "playbackRate"; rate: number }
+  | { type: "wave"; wave: WaveParams }
+  // Custom fields carry their GLSL; sample functions cannot cross threads, so depth of field
+  // in the worker focuses on their full extent.
+  | { type: "waveField"; name: string; glsl?: string }
+  // Callbacks cannot cross threads; wallpapers lit by one render on the main thread.
+  | { type: "intensity"; intensity: CircleWallpaperIntensityMap | null }
+  | { type: "highlights"; highlights: CircleWallpaperHighlight[] }
+  // Custom passes cannot cross threads; wallpapers using one render on the main thread.
+  | { type: "effects"; effects: CircleWallpaperBuiltInEffect[] }
+  | { type: "camera"; camera: CircleWallpaperCamera }
+  | { type: "blur"; blurIntensity: number }
+  // Requests are answered with an event carrying the same id.
+  | { type: "captureFrame"; id: number; mimeType?: string; quality?: number }
+  | { type: "stats"; id: number }
+  | { type: "interaction"; interaction: CircleWallpaperInteraction | null }
+  | { type: "pointer"; point: CircleWallpaperPoint | null }
+  | { type: "ripple"; point: CircleWallpaperPoint }
+  | { type: "qualityRange"; minQuality: CircleWallpaperQuality; maxQuality: CircleWallpaperQuality }
+  | { type: "dispose" };
+
+// Errors cannot be cloned reliably across threads, so failures carry the message only.
+export type CircleWallpaperWorkerEvent =
+  | { type: "quality"; quality: CircleWallpaperQuality }
+  | { type: "failure"; message: string | null }
+  | { type: "frame"; id: number; blob: Blob | null; error: string | null }
+  | { type: "stats"; id: number; stats: CircleWallpaperStats | null };
+
+const postEvent = (event: CircleWallpaperWorkerEvent) => {
+  self.postMessage(event);
+};
+
+let wallpaper: CircleWallpaperRenderer | null = null;
+
+self.addEventListener("message", (event: MessageEvent<CircleWallpaperWorkerMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "init":
+      wallpaper?.dispose();
+      try {
+        wallpaper = createCircleWallpaperRenderer(message.canvas, message.options, message.viewport, {
+          minQuality: message.minQuality,
+          maxQuality: message.maxQuality,
+          onQualityChange: (quality) => {
+            postEvent({ type: "quality", quality });
+          },
+          onFailure: (error) => {
+            postEvent({ type: "failure", message: error ? error.message : null });
+          },
+        });
+      } catch (error) {
+        wallpaper = null;
+        postEvent({ type: "failure", message: toError(error).message });
+      }
+      break;
+    case "resize":
+      wallpaper?.resize(message.viewport);
+      break;
+    case "options":
+      wallpaper?.setOptions(message.options);
+      break;
+    case "transition":
+      wallpaper?.setTransition(message.transition);
+      break;
+    case "theme":
+      wallpaper?.setTheme(message.theme);
+      break;
+    case "circleImage":
+      if (wallpaper) {
+        wallpaper.setCircleImage(message.image);
+      } else {
+        message.image.close();
+      }
+      break;
+    case "visibility":
+      wallpaper?.setVisible(message.visible);
+      break;
+    case "motion":
+      wallpaper?.setMotion(message.motion);
+      break;
+    case "time":
+      wallpaper?.setTime(message.seconds);
+      break;
+    case "paused":
+      wallpaper?.setPaused(message.paused);
+      break;
+    case "playbackRate":
+      wallpaper?.setPlaybackRate(message.rate);
+      break;
+    case "wave":
+      wallpaper?.setWave(message.wave);
+      break;
+    case "waveField":
+      if (message.glsl !== undefined && getWaveField(message.name)?.glsl !== message.glsl) {
+        registerWaveField(message.name, { glsl: message.glsl });
+      }
+      wallpaper?.setWaveField(message.name);
+      break;
+    case "intensity":
+      wallpaper?.setIntensity(message.intensity);
+      break;
+    case "highlights":
+      wallpaper?.setHighlights(message.highlights);
+      break;
+    case "effects":
+      wallpaper?.setEffects(message.effects);
+      break;
+    case "camera":
+      wallpaper?.setCamera(message.camera);
+      break;
+    case "blur":
+      wallpaper?.setBlur(message.blurIntensity);
+      break;
+    case "captureFrame": {
+      const { id } = message;
+      (wallpaper
+        ? wallpaper.captureFrame(message.mimeType, message.quality)
+        : Promise.reject(new Error("CircleWallpaper has no frame to capture"))
+      ).then(
+        (blob) => {
+          postEvent({ type: "frame", id, blob, error: null });
+        },
+        (error) => {
+          postEvent({ type: "frame", id, blob: null, error: toError(error).message });
+        },
+      );
+      break;
+    }
+    case "stats": {
+      const { id } = message;
+      if (!wallpaper) {
+        postEvent({ type: "stats", id, stats: null });
+        break;
+      }
+      void wallpaper.getStats().then((stats) => {
+        postEvent({ type: "stats", id, stats });
+      });
+      break;
+    }
+    case "interaction":
+      wallpaper?.setInteraction(message.interaction);
+      break;
+    case "pointer":
+      wallpaper?.setPointer(message.point);
+      break;
+    case "ripple":
+      wallpaper?.addRipple(message.point);
+      break;
+    case "qualityRange":
+      wallpaper?.setQualityRange(message.minQuality, message.maxQuality);
+      break;
+    case "dispose":
+      wallpaper?.dispose();
+      wallpaper = null;
+      self.close();
+      break;
+  }
+});
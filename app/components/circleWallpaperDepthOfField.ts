@@ -0,0 +1,95 @@
+// app/components/circleWallpaperDepthOfField.ts
+export const CIRCLE_WALLPAPER_FOCUS_MODES = ["crest", "fixed", "point", "pointer"] as const;
+
+export type CircleWallpaperFocusMode = (typeof CIRCLE_WALLPAPER_FOCUS_MODES)[number];
+
+// Each blur tap is a texture read per pixel; beyond this the pass costs more than the scene.
+export const MAX_DEPTH_OF_FIELD_SAMPLES = 128;
+
+// Blur taps per pixel; "high" matches the classic 41-tap bokeh.
+export const DEPTH_OF_FIELD_SAMPLE_PRESETS = { low: 12, medium: 24, high: 41 } as const;
+
+export type CircleWallpaperDepthOfFieldSamples =
+  | keyof typeof DEPTH_OF_FIELD_SAMPLE_PRESETS
+  | number;
+
+export type CircleWallpaperDepthOfField = {
+  // "crest" follows the nearest wave crest, "fixed" holds focusDistance, "point" keeps
+  // focusPoint sharp and "pointer" focuses where the pointer meets the wave.
+  mode: CircleWallpaperFocusMode;
+  // World units from the camera, for "fixed".
+  focusDistance: number;
+  // World position for "point"; the grid lies in the z = 0 plane.
+  focusPoint: { x: number; y: number; z: number };
+  // Bokeh size and blur cap at a blurIntensity of 1; blurIntensity scales both.
+  aperture: number;
+  maxBlur: number;
+  // Depth behind the focus over which blur ramps up to maxBlur; null spans the wave from crest
+  // to trough.
+  focusRange: number | null;
+  // Exponent of that ramp; higher keeps more of the range sharp. Null derives it from
+  // blurIntensity.
+  falloff: number | null;
+  // Rate per second at which focus eases toward its target; 0 snaps to it every frame.
+  focusSpeed: number;
+  // A preset or a number of taps, rounded and clamped to 1 through 128.
+  samples: CircleWallpaperDepthOfFieldSamples;
+  // Blurs at half resolution, about a quarter of the cost, blended over the sharp image.
+  halfResolution: boolean;
+};
+
+export const DEFAULT_DEPTH_OF_FIELD: CircleWallpaperDepthOfField = {
+  mode: "crest",
+  focusDistance: 45,
+  focusPoint: { x: 0, y: 0, z: 0 },
+  aperture: 0.04,
+  maxBlur: 0.02,
+  focusRange: null,
+  falloff: null,
+  focusSpeed: 0,
+  samples: "high",
+  halfResolution: false,
+};
+
+export function isCircleWallpaperFocusMode(value: unknown): value is CircleWallpaperFocusMode {
+  return (CIRCLE_WALLPAPER_FOCUS_MODES as readonly unknown[]).includes(value);
+}
+
+const finiteOr = (value: number | null | undefined, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+const positiveOrNull = (value: number | null | undefined) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+
+// Fills in defaults and drops values that would break the blur, e.g. negative apertures.
+export function resolveDepthOfField(
+  depthOfField: Partial<CircleWallpaperDepthOfField> | undefined,
+): CircleWallpaperDepthOfField {
+  const defaults = DEFAULT_DEPTH_OF_FIELD;
+  const point = depthOfField?.focusPoint;
+  return {
+    mode: isCircleWallpaperFocusMode(depthOfField?.mode) ? depthOfField.mode : defaults.mode,
+    focusDistance: Math.max(0.1, finiteOr(depthOfField?.focusDistance, defaults.focusDistance)),
+    focusPoint: {
+      x: finiteOr(point?.x, defaults.focusPoint.x),
+      y: finiteOr(point?.y, defaults.focusPoint.y),
+      z: finiteOr(point?.z, defaults.focusPoint.z),
+    },
+    aperture: Math.max(0, finiteOr(depthOfField?.aperture, defaults.aperture)),
+    maxBlur: Math.max(0, finiteOr(depthOfField?.maxBlur, defaults.maxBlur)),
+    focusRange: positiveOrNull(depthOfField?.focusRange),
+    falloff: positiveOrNull(depthOfField?.falloff),
+    focusSpeed: Math.max(0, finiteOr(depthOfField?.focusSpeed, defaults.focusSpeed)),
+    samples:
+      typeof depthOfField?.samples === "number" && Number.isFinite(depthOfField.samples)
+        ? Math.min(MAX_DEPTH_OF_FIELD_SAMPLES, Math.max(1, Math.round(depthOfField.samples)))
+        : typeof depthOfField?.samples === "string" &&
+            depthOfField.samples in DEPTH_OF_FIELD_SAMPLE_PRESETS
+          ? depthOfField.samples
+          : defaults.samples,
+    halfResolution: depthOfField?.halfResolution === true,
+  };
+}
+
+export const resolveDepthOfFieldSamples = (samples: CircleWallpaperDepthOfFieldSamples) =>
+  typeof samples === "number" ? samples : DEPTH_OF_FIELD_SAMPLE_PRESETS[samples];
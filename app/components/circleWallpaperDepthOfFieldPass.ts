@@ -0,0 +1,225 @@
+// app/components/circleWallpaperDepthOfFieldPass.ts
+import * as THREE from "three";
+import { FullScreenQuad, Pass } from "three/examples/jsm/postprocessing/Pass.js";
+import { MAX_DEPTH_OF_FIELD_SAMPLES } from "./circleWallpaperDepthOfField";
+
+// Blur at half resolution only takes over once the blur radius spans this many full pixels,
+// so in-focus circles stay sharp.
+const HALF_RESOLUTION_BLEND_PIXELS = 2;
+
+const VERTEX_GLSL = `
+varying vec2 vUv;
+
+void main() {
+\tvUv = uv;
+\tgl_Position = projectionMatrix * modelViewMatrix * vec4( position, 1.0 );
+}
+`;
+
+// Blur grows with depth behind the focus only: nothing in front of the focus blurs, and past
+// focusRange the blur is at its cap. focusFalloff bends the ramp in between.
+const FRAGMENT_GLSL = `
+#include <common>
+#include <packing>
+
+uniform sampler2D tColor;
+uniform sampler2D tDepth;
+uniform sampler2D tBlur;
+uniform float focus;
+uniform float focusRange;
+uniform float focusFalloff;
+uniform float aperture;
+uniform float maxBlur;
+uniform float aspect;
+uniform float nearClip;
+uniform float farClip;
+uniform float resolutionY;
+
+varying vec2 vUv;
+
+float blurRadius( vec2 uv ) {
+\tfloat viewZ = perspectiveDepthToViewZ( texture2D( tDepth, uv ).x, nearClip, farClip );
+\tfloat depthDelta = -viewZ - focus;
+\tif ( depthDelta <= 0.0 ) {
+\t\treturn 0.0;
+\t}
+\tfloat factor = pow( clamp( depthDelta / max( focusRange, 1e-6 ), 0.0, 1.0 ), focusFalloff );
+\treturn min( factor * aperture, maxBlur );
+}
+
+// Taps spread evenly over a disc along a golden angle spiral, so any count looks round.
+vec4 blurColor( vec2 uv, float radius ) {
+\tvec2 scale = vec2( 1.0, aspect ) * radius;
+\tvec4 color = vec4( 0.0 );
+\tfor ( int i = 0; i < SAMPLE_COUNT; i ++ ) {
+\t\tfloat tapDistance = sqrt( ( float( i ) + 0.5 ) / float( SAMPLE_COUNT ) ) * 0.4;
+\t\tfloat tapAngle = float( i ) * 2.39996323;
+\t\tcolor += texture2D( tColor, uv + vec2( cos( tapAngle ), sin( tapAngle ) ) * tapDistance * scale );
+\t}
+\treturn color / float( SAMPLE_COUNT );
+}
+
+// The scene target holds premultiplied color, so averaging taps blurs coverage along with color
+// and transparent backgrounds keep their alpha.
+void main() {
+#ifdef COMPOSITE
+\tfloat blend = clamp( blurRadius( vUv ) * resolutionY / ${HALF_RESOLUTION_BLEND_PIXELS}.0, 0.0, 1.0 );
+\tgl_FragColor = mix( texture2D( tColor, vUv ), texture2D( tBlur, vUv ), blend );
+#else
+\tgl_FragColor = blurColor( vUv, blurRadius( vUv ) );
+#endif
+}
+`;
+
+export type DepthOfFieldPassSettings = {
+  samples: number;
+  halfResolution: boolean;
+};
+
+export type DepthOfFieldPass = Pass & {
+  // Distances are in world units along the camera's view direction.
+  setFocus: (focus: number, focusRange: number) => void;
+  setBlur: (aperture: number, maxBlur: number, falloff: number) => void;
+  setSettings: (settings: DepthOfFieldPassSettings) => void;
+};
+
+// Props are clamped when resolved, so this only catches callers that skip resolveDepthOfField.
+function validateSettings({ samples }: DepthOfFieldPassSettings) {
+  if (!Number.isInteger(samples) || samples < 1 || samples > MAX_DEPTH_OF_FIELD_SAMPLES) {
+    throw new Error(
+      `Depth of field samples must be a whole number from 1 to ${MAX_DEPTH_OF_FIELD_SAMPLES}, got ${samples}`,
+    );
+  }
+}
+
+// Draws the scene's depth into the bound target. The scene supplies it because its meshes are
+// displaced in their vertex shaders, which a generic override material would skip.
+export type DepthOfFieldDepthRenderer = (renderer: THREE.WebGLRenderer) => void;
+
+// Renders the scene's depth, then blurs the previous pass's color by it. With halfResolution the
+// blur runs on a quarter of the pixels and is blended over the sharp image where it is wide.
+export function createDepthOfFieldPass(
+  renderDepth: DepthOfFieldDepthRenderer,
+  camera: THREE.PerspectiveCamera,
+  settings: DepthOfFieldPassSettings,
+): DepthOfFieldPass {
+  if (!camera.isPerspectiveCamera) {
+    throw new Error("Depth of field needs a perspective camera");
+  }
+  validateSettings(settings);
+  let halfResolution = settings.halfResolution;
+
+  const depthTarget = new THREE.WebGLRenderTarget(1, 1, {
+    minFilter: THREE.NearestFilter,
+    magFilter: THREE.NearestFilter,
+    depthTexture: new THREE.DepthTexture(1, 1),
+  });
+  const blurTarget = new THREE.WebGLRenderTarget(1, 1, { type: THREE.HalfFloatType });
+
+  const uniforms = {
+    tColor: { value: null as THREE.Texture | null },
+    tDepth: { value: depthTarget.depthTexture },
+    tBlur: { value: blurTarget.texture },
+    focus: { value: 1 },
+    focusRange: { value: 1 },
+    focusFalloff: { value: 1 },
+    aperture: { value: 0 },
+    maxBlur: { value: 0 },
+    aspect: { value: 1 },
+    nearClip: { value: camera.near },
+    farClip: { value: camera.far },
+    resolutionY: { value: 1 },
+  };
+  const createMaterial = (composite: boolean) =>
+    new THREE.ShaderMaterial({
+      defines: composite
+        ? { SAMPLE_COUNT: settings.samples, COMPOSITE: 1 }
+        : { SAMPLE_COUNT: settings.samples },
+      uniforms,
+      vertexShader: VERTEX_GLSL,
+      fragmentShader: FRAGMENT_GLSL,
+      blending: THREE.NoBlending,
+      depthTest: false,
+      depthWrite: false,
+    });
+  const blurMaterial = createMaterial(false);
+  const compositeMaterial = createMaterial(true);
+  const blurQuad = new FullScreenQuad(blurMaterial);
+  const compositeQuad = new FullScreenQuad(compositeMaterial);
+
+  const pass = new Pass() as DepthOfFieldPass;
+  let width = 1;
+  let height = 1;
+
+  const sizeTargets = () => {
+    depthTarget.setSize(width, height);
+    blurTarget.setSize(
+      halfResolution ? Math.max(1, Math.round(width / 2)) : 1,
+      halfResolution ? Math.max(1, Math.round(height / 2)) : 1,
+    );
+  };
+
+  pass.setSize = (nextWidth, nextHeight) => {
+    width = Math.max(1, nextWidth);
+    height = Math.max(1, nextHeight);
+    uniforms.aspect.value = width / height;
+    uniforms.resolutionY.value = height;
+    sizeTargets();
+  };
+
+  pass.render = (renderer, writeBuffer, readBuffer) => {
+    const autoClear = renderer.autoClear;
+    renderer.autoClear = false;
+    renderer.setRenderTarget(depthTarget);
+    renderer.clear();
+    renderDepth(renderer);
+
+    uniforms.tColor.value = readBuffer.texture;
+    uniforms.nearClip.value = camera.near;
+    uniforms.farClip.value = camera.far;
+    if (halfResolution) {
+      renderer.setRenderTarget(blurTarget);
+      blurQuad.render(renderer);
+    }
+    renderer.setRenderTarget(pass.renderToScreen ? null : writeBuffer);
+    (halfResolution ? compositeQuad : blurQuad).render(renderer);
+    renderer.autoClear = autoClear;
+  };
+
+  pass.dispose = () => {
+    depthTarget.depthTexture?.dispose();
+    depthTarget.dispose();
+    blurTarget.dispose();
+    blurMaterial.dispose();
+    compositeMaterial.dispose();
+    blurQuad.dispose();
+    compositeQuad.dispose();
+  };
+
+  pass.setFocus = (focus, focusRange) => {
+    uniforms.focus.value = focus;
+    uniforms.focusRange.value = focusRange;
+  };
+
+  pass.setBlur = (aperture, maxBlur, falloff) => {
+    uniforms.aperture.value = aperture;
+    uniforms.maxBlur.value = maxBlur;
+    uniforms.focusFalloff.value = falloff;
+  };
+
+  pass.setSettings = (nextSettings) => {
+    validateSettings(nextSettings);
+    if (nextSettings.samples !== blurMaterial.defines.SAMPLE_COUNT) {
+      for (const material of [blurMaterial, compositeMaterial]) {
+        material.defines.SAMPLE_COUNT = nextSettings.samples;
+        material.needsUpdate = true;
+      }
+    }
+    if (nextSettings.halfResolution !== halfResolution) {
+      halfResolution = nextSettings.halfResolution;
+      sizeTargets();
+    }
+  };
+
+  return pass;
+}
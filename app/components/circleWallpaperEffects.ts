@@ -0,0 +1,201 @@
+// app/components/circleWallpaperEffects.ts
+import * as THREE from "three";
+import { FilmPass } from "three/examples/jsm/postprocessing/FilmPass.js";
+import { LUTPass } from "three/examples/jsm/postprocessing/LUTPass.js";
+import type { Pass } from "three/examples/jsm/postprocessing/Pass.js";
+import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass.js";
+import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass.js";
+import { LUTCubeLoader } from "three/examples/jsm/loaders/LUTCubeLoader.js";
+import { BrightnessContrastShader } from "three/examples/jsm/shaders/BrightnessContrastShader.js";
+import { HueSaturationShader } from "three/examples/jsm/shaders/HueSaturationShader.js";
+import { RGBShiftShader } from "three/examples/jsm/shaders/RGBShiftShader.js";
+import { VignetteShader } from "three/examples/jsm/shaders/VignetteShader.js";
+
+// Glow around bright pixels, mostly the additive particles; threshold is the luminance where it
+// starts.
+export type CircleWallpaperBloom = {
+  type: "bloom";
+  strength?: number;
+  radius?: number;
+  threshold?: number;
+};
+
+export type CircleWallpaperVignette = {
+  type: "vignette";
+  // How far the dark edge reaches in; darkness is how dark it gets.
+  offset?: number;
+  darkness?: number;
+};
+
+// Animated film noise, from 0 (none) to 1.
+export type CircleWallpaperGrain = {
+  type: "grain";
+  intensity?: number;
+  grayscale?: boolean;
+};
+
+// All values range from -1 to 1, with 0 leaving the image alone.
+export type CircleWallpaperColorGrading = {
+  type: "colorGrading";
+  brightness?: number;
+  contrast?: number;
+  hue?: number;
+  saturation?: number;
+};
+
+// A .cube lookup table; the effect stays off until the file has loaded.
+export type CircleWallpaperLut = {
+  type: "lut";
+  src: string;
+  intensity?: number;
+};
+
+// Splits red and blue apart by amount (a fraction of the view) along angle (radians).
+export type CircleWallpaperChromaticAberration = {
+  type: "chromaticAberration";
+  amount?: number;
+  angle?: number;
+};
+
+// Any three.js post-processing pass. It stays owned by the caller and is never disposed here.
+export type CircleWallpaperCustomEffect = {
+  type: "pass";
+  pass: Pass;
+};
+
+// Effects that can be described as data, so a worker can build them too.
+export type CircleWallpaperBuiltInEffect =
+  | CircleWallpaperBloom
+  | CircleWallpaperVignette
+  | CircleWallpaperGrain
+  | CircleWallpaperColorGrading
+  | CircleWallpaperLut
+  | CircleWallpaperChromaticAberration;
+
+export type CircleWallpaperEffect = CircleWallpaperBuiltInEffect | CircleWallpaperCustomEffect;
+
+export const isCustomEffect = (
+  effect: CircleWallpaperEffect,
+): effect is CircleWallpaperCustomEffect => effect.type === "pass";
+
+const finiteOr = (value: number | undefined, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+export type EffectPasses = {
+  passes: Pass[];
+  dispose: () => void;
+};
+
+// One or more passes per effect, in list order. Neutral color grading adds no pass at all.
+// onLoad fires when an effect that loads a file becomes ready, so a still view can redraw.
+export function createEffectPasses(
+  effects: CircleWallpaperEffect[],
+  onLoad: () => void,
+): EffectPasses {
+  const passes: Pass[] = [];
+  const owned: Pass[] = [];
+  const textures: THREE.Texture[] = [];
+  let disposed = false;
+
+  const addOwned = (pass: Pass) => {
+    passes.push(pass);
+    owned.push(pass);
+  };
+
+  for (const effect of effects) {
+    switch (effect.type) {
+      case "bloom":
+        // The resolution is replaced as soon as the composer sizes the pass.
+        addOwned(
+          new UnrealBloomPass(
+            new THREE.Vector2(1, 1),
+            Math.max(0, finiteOr(effect.strength, 0.8)),
+            Math.max(0, finiteOr(effect.radius, 0.4)),
+            Math.max(0, finiteOr(effect.threshold, 0.6)),
+          ),
+        );
+        break;
+      case "vignette": {
+        const pass = new ShaderPass(VignetteShader);
+        pass.uniforms.offset.value = Math.max(0, finiteOr(effect.offset, 1));
+        pass.uniforms.darkness.value = Math.max(0, finiteOr(effect.darkness, 1));
+        addOwned(pass);
+        break;
+      }
+      case "grain":
+        addOwned(
+          new FilmPass(
+            Math.min(1, Math.max(0, finiteOr(effect.intensity, 0.35))),
+            effect.grayscale === true,
+          ),
+        );
+        break;
+      case "colorGrading": {
+        const brightness = finiteOr(effect.brightness, 0);
+        const contrast = finiteOr(effect.contrast, 0);
+        const hue = finiteOr(effect.hue, 0);
+        const saturation = finiteOr(effect.saturation, 0);
+        if (brightness !== 0 || contrast !== 0) {
+          const pass = new ShaderPass(BrightnessContrastShader);
+          pass.uniforms.brightness.value = brightness;
+          pass.uniforms.contrast.value = contrast;
+          addOwned(pass);
+        }
+        if (hue !== 0 || saturation !== 0) {
+          const pass = new ShaderPass(HueSaturationShader);
+          pass.uniforms.hue.value = hue;
+          pass.uniforms.saturation.value = saturation;
+          addOwned(pass);
+        }
+        break;
+      }
+      case "lut": {
+        const pass = new LUTPass({
+          intensity: Math.min(1, Math.max(0, finiteOr(effect.intensity, 1))),
+        });
+        pass.enabled = false;
+        addOwned(pass);
+        new LUTCubeLoader().load(
+          effect.src,
+          (result) => {
+            if (disposed) {
+              result.texture3D.dispose();
+              return;
+            }
+            textures.push(result.texture3D);
+            pass.lut = result.texture3D;
+            pass.enabled = true;
+            onLoad();
+          },
+          undefined,
+          () => {
+            console.warn(`Failed to load the wallpaper LUT ${effect.src}`);
+          },
+        );
+        break;
+      }
+      case "chromaticAberration": {
+        const pass = new ShaderPass(RGBShiftShader);
+        pass.uniforms.amount.value = Math.max(0, finiteOr(effect.amount, 0.002));
+        pass.uniforms.angle.value = finiteOr(effect.angle, 0);
+        addOwned(pass);
+        break;
+      }
+      case "pass":
+        passes.push(effect.pass);
+        break;
+    }
+  }
+
+  const dispose = () => {
+    disposed = true;
+    for (const pass of owned) {
+      pass.dispose();
+    }
+    for (const texture of textures) {
+      texture.dispose();
+    }
+  };
+
+  return { passes, dispose };
+}
@@ -0,0 +1,271 @@
+// app/components/circleWallpaperGrid.ts
+export const CIRCLE_WALLPAPER_LATTICES = [
+  "staggered",
+  "square",
+  "hex",
+  "radial",
+  "fibonacci",
+] as const;
+
+export type CircleWallpaperLattice = (typeof CIRCLE_WALLPAPER_LATTICES)[number];
+
+// World units, or fractions of the view's width and height of which the smaller one wins.
+export type CircleWallpaperCellSize = number | { width: number; height: number };
+
+export type CircleWallpaperGrid = {
+  lattice: CircleWallpaperLattice;
+  // Radians, counterclockwise; the flow follows the rotated axes.
+  rotation: number;
+  // Circle diameter.
+  cellSize: CircleWallpaperCellSize;
+  // Distance between circles along and across rows, in circle diameters. Radial rings use x
+  // along each ring and y between rings; the spiral packs one circle per x * y area.
+  spacingX: number;
+  spacingY: number;
+  // Fraction of the x spacing that every other row (or ring) is shifted by.
+  stagger: number;
+};
+
+const BASE_X_SPACING_MULTIPLIER = 1 / 0.82;
+const BASE_Y_SPACING_MULTIPLIER = 1.29;
+const Y_SPACING_REDUCTION = 0.9;
+const DEFAULT_SPACING_Y = BASE_Y_SPACING_MULTIPLIER * Y_SPACING_REDUCTION;
+const DEFAULT_SPACING_X =
+  ((BASE_X_SPACING_MULTIPLIER * Y_SPACING_REDUCTION) + DEFAULT_SPACING_Y) / 2 * 1.08;
+
+export const DEFAULT_GRID: CircleWallpaperGrid = {
+  lattice: "staggered",
+  rotation: (20 * Math.PI) / 180,
+  cellSize: { width: 0.07, height: 0.12 },
+  spacingX: DEFAULT_SPACING_X,
+  spacingY: DEFAULT_SPACING_Y,
+  stagger: 0.5,
+};
+
+// Spacing and stagger each lattice starts from before overrides.
+const LATTICE_DEFAULTS: Record<
+  CircleWallpaperLattice,
+  Pick<CircleWallpaperGrid, "spacingX" | "spacingY" | "stagger">
+> = {
+  staggered: { spacingX: DEFAULT_SPACING_X, spacingY: DEFAULT_SPACING_Y, stagger: 0.5 },
+  square: { spacingX: DEFAULT_SPACING_X, spacingY: DEFAULT_SPACING_X, stagger: 0 },
+  hex: {
+    spacingX: DEFAULT_SPACING_X,
+    spacingY: (DEFAULT_SPACING_X * Math.sqrt(3)) / 2,
+    stagger: 0.5,
+  },
+  radial: { spacingX: DEFAULT_SPACING_X, spacingY: DEFAULT_SPACING_Y, stagger: 0.5 },
+  fibonacci: { spacingX: DEFAULT_SPACING_X, spacingY: DEFAULT_SPACING_Y, stagger: 0 },
+};
+
+const MIN_SPACING = 0.1;
+const FULL_TURN = Math.PI * 2;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+export function isCircleWallpaperLattice(value: unknown): value is CircleWallpaperLattice {
+  return (CIRCLE_WALLPAPER_LATTICES as readonly unknown[]).includes(value);
+}
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+function resolveCellSize(cellSize: unknown): CircleWallpaperCellSize {
+  if (typeof cellSize === "number") {
+    return Number.isFinite(cellSize) && cellSize > 0 ? cellSize : DEFAULT_GRID.cellSize;
+  }
+  if (cellSize && typeof cellSize === "object") {
+    const { width, height } = cellSize as Partial<{ width: number; height: number }>;
+    const fallback = DEFAULT_GRID.cellSize as { width: number; height: number };
+    return {
+      width: Math.max(0, finiteOr(width, fallback.width)),
+      height: Math.max(0, finiteOr(height, fallback.height)),
+    };
+  }
+  return DEFAULT_GRID.cellSize;
+}
+
+export function resolveGrid(grid: Partial<CircleWallpaperGrid> | undefined): CircleWallpaperGrid {
+  const lattice = isCircleWallpaperLattice(grid?.lattice) ? grid.lattice : DEFAULT_GRID.lattice;
+  const defaults = LATTICE_DEFAULTS[lattice];
+  return {
+    lattice,
+    rotation: finiteOr(grid?.rotation, DEFAULT_GRID.rotation),
+    cellSize: resolveCellSize(grid?.cellSize),
+    spacingX: Math.max(MIN_SPACING, finiteOr(grid?.spacingX, defaults.spacingX)),
+    spacingY: Math.max(MIN_SPACING, finiteOr(grid?.spacingY, defaults.spacingY)),
+    stagger: finiteOr(grid?.stagger, defaults.stagger),
+  };
+}
+
+export function resolveCellDiameter(
+  cellSize: CircleWallpaperCellSize,
+  viewWidth: number,
+  viewHeight: number,
+) {
+  const diameter =
+    typeof cellSize === "number"
+      ? cellSize
+      : Math.min(viewWidth * cellSize.width, viewHeight * cellSize.height);
+  return Math.max(0.2, diameter);
+}
+
+export type LatticeBounds = { minX: number; maxX: number; minY: number; maxY: number };
+
+// row and column identify a cell for its random values, so they must not depend on the scroll.
+export type LatticeCell = { x: number; y: number; row: number; column: number };
+
+// Rows repeat every column, so they are laid out around the view; the point lattices are
+// centered on the world origin and slide across the view as the columns scroll past.
+export const isRowLattice = (lattice: CircleWallpaperLattice) =>
+  lattice === "staggered" || lattice === "square" || lattice === "hex";
+
+const insideBounds = (x: number, y: number, bounds: LatticeBounds) =>
+  x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY;
+
+// Nearest and farthest distance from the origin to any point of the bounds.
+function distanceRange({ minX, maxX, minY, maxY }: LatticeBounds) {
+  const nearX = minX > 0 ? minX : maxX < 0 ? maxX : 0;
+  const nearY = minY > 0 ? minY : maxY < 0 ? maxY : 0;
+  const farX = Math.max(Math.abs(minX), Math.abs(maxX));
+  const farY = Math.max(Math.abs(minY), Math.abs(maxY));
+  return { near: Math.hypot(nearX, nearY), far: Math.hypot(farX, farY) };
+}
+
+// Into [-PI, PI).
+const wrapAngle = (angle: number) => angle - Math.floor(angle / FULL_TURN + 0.5) * FULL_TURN;
+
+// The arc of directions from the origin that the bounds cover, or null when they contain it.
+function visibleArc(bounds: LatticeBounds) {
+  if (insideBounds(0, 0, bounds)) {
+    return null;
+  }
+  const center = Math.atan2((bounds.minY + bounds.maxY) / 2, (bounds.minX + bounds.maxX) / 2);
+  let arcMin = Number.POSITIVE_INFINITY;
+  let arcMax = Number.NEGATIVE_INFINITY;
+  for (const [x, y] of [
+    [bounds.minX, bounds.minY],
+    [bounds.minX, bounds.maxY],
+    [bounds.maxX, bounds.minY],
+    [bounds.maxX, bounds.maxY],
+  ]) {
+    const delta = wrapAngle(Math.atan2(y, x) - center);
+    arcMin = Math.min(arcMin, delta);
+    arcMax = Math.max(arcMax, delta);
+  }
+  return { start: center + arcMin, width: arcMax - arcMin };
+}
+
+// Every cell of the lattice inside the bounds, in grid space with the scrolled columns and rows
+// removed. bounds are in the same space; columnOffset and rowOffset count whole x and y spacings
+// scrolled so far, and rowOffset has to be even so staggered rows keep their parity.
+export function collectLatticeCells(
+  grid: CircleWallpaperGrid,
+  bounds: LatticeBounds,
+  xSpacing: number,
+  ySpacing: number,
+  columnOffset: number,
+  rowOffset: number,
+) {
+  const cells: LatticeCell[] = [];
+  if (isRowLattice(grid.lattice)) {
+    const rowMin = Math.floor(bounds.minY / ySpacing) - 1;
+    const rowMax = Math.ceil(bounds.maxY / ySpacing) + 1;
+    for (let row = rowMin; row <= rowMax; row += 1) {
+      const shift = (row & 1) !== 0 ? grid.stagger : 0;
+      const cMin = Math.floor(bounds.minX / xSpacing - shift) - 1;
+      const cMax = Math.ceil(bounds.maxX / xSpacing - shift) + 1;
+      for (let col = cMin; col <= cMax; col += 1) {
+        cells.push({
+          x: (col + shift) * xSpacing,
+          y: row * ySpacing,
+          row: row + rowOffset,
+          column: col + columnOffset,
+        });
+      }
+    }
+    return cells;
+  }
+
+  const scroll = columnOffset * xSpacing;
+  const scrollY = rowOffset * ySpacing;
+  const world: LatticeBounds = {
+    minX: bounds.minX + scroll,
+    maxX: bounds.maxX + scroll,
+    minY: bounds.minY + scrollY,
+    maxY: bounds.maxY + scrollY,
+  };
+  const { near, far } = distanceRange(world);
+  const arc = visibleArc(world);
+
+  if (grid.lattice === "radial") {
+    const ringMin = Math.max(0, Math.floor(near / ySpacing));
+    const ringMax = Math.ceil(far / ySpacing);
+    const arcStart = arc ? arc.start : -Math.PI;
+    const arcWidth = arc ? arc.width : FULL_TURN;
+    for (let ring = ringMin; ring <= ringMax; ring += 1) {
+      const radius = ring * ySpacing;
+      const count = ring === 0 ? 1 : Math.max(1, Math.round((FULL_TURN * radius) / xSpacing));
+      const step = FULL_TURN / count;
+      const phase = (ring & 1) !== 0 ? grid.stagger * step : 0;
+      const first = Math.floor((arcStart - phase) / step) - 1;
+      const last = Math.min(first + count - 1, Math.ceil((arcStart + arcWidth - phase) / step) + 1);
+      for (let index = first; index <= last; index += 1) {
+        const angle = index * step + phase;
+        const x = Math.cos(angle) * radius;
+        const y = Math.sin(angle) * radius;
+        if (insideBounds(x, y, world)) {
+          const column = ((index % count) + count) % count;
+          cells.push({ x: x - scroll, y: y - scrollY, row: ring, column });
+        }
+      }
+    }
+    return cells;
+  }
+
+  // Sunflower spiral: circle n sits at radius c * sqrt(n) and angle n * GOLDEN_ANGLE, so every
+  // circle covers the same area.
+  const scale = Math.sqrt((xSpacing * ySpacing) / Math.PI);
+  const first = Math.floor((near / scale) ** 2);
+  const last = Math.ceil((far / scale) ** 2);
+  const visit = (n: number) => {
+    const radius = scale * Math.sqrt(n);
+    const angle = n * GOLDEN_ANGLE;
+    const x = Math.cos(angle) * radius;
+    const y = Math.sin(angle) * radius;
+    if (insideBounds(x, y, world)) {
+      cells.push({ x: x - scroll, y: y - scrollY, row: n, column: 0 });
+    }
+  };
+  if (!arc) {
+    for (let n = first; n <= last; n += 1) {
+      visit(n);
+    }
+    return cells;
+  }
+  // Far from the origin the radius band is long but only a thin arc of it is visible. Circles a
+  // Fibonacci number q apart differ in angle by a small drift, so each residue class mod q walks
+  // the band in small angular steps and the indices inside the arc can be computed directly.
+  let q = 1;
+  let previousQ = 1;
+  while (q * q < last - first) {
+    [previousQ, q] = [q, previousQ + q];
+  }
+  const drift = wrapAngle(q * GOLDEN_ANGLE);
+  for (let residue = first; residue < first + q && residue <= last; residue += 1) {
+    const steps = Math.floor((last - residue) / q);
+    const offset = wrapAngle(residue * GOLDEN_ANGLE - arc.start);
+    const low = Math.min(offset, offset + steps * drift);
+    const high = Math.max(offset, offset + steps * drift);
+    for (let turn = Math.floor(low / FULL_TURN); turn * FULL_TURN <= high; turn += 1) {
+      const arcLow = turn * FULL_TURN;
+      const arcHigh = arcLow + arc.width;
+      const [enter, exit] = drift > 0 ? [arcLow, arcHigh] : [arcHigh, arcLow];
+      const stepMin = Math.max(0, Math.ceil((enter - offset) / drift));
+      const stepMax = Math.min(steps, Math.floor((exit - offset) / drift));
+      for (let step = stepMin; step <= stepMax; step += 1) {
+        visit(residue + step * q);
+      }
+    }
+  }
+  return cells;
+}
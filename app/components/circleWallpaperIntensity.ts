@@ -0,0 +1,185 @@
+// app/components/circleWallpaperIntensity.ts
+// Where a data source lands on the grid. Positions count grid cells: columns along the rows and
+// rows upwards, both from the grid origin, which drifts with the flow like every circle.
+export type CircleWallpaperIntensityPlacement = {
+  // Cell the top-left value lands on; by default the source is centered on the grid origin.
+  column?: number;
+  row?: number;
+  // Grid cells per source value.
+  scale?: number;
+  // Tile the source across the whole grid instead of placing it once.
+  repeat?: boolean;
+  // 0 keeps the random intensities, 1 uses the source alone; in between blends the two.
+  strength?: number;
+};
+
+export type CircleWallpaperIntensityMap = CircleWallpaperIntensityPlacement & {
+  // Rows of values from 0 (as dim as the dimmest random circle) to 1 (fully lit), top row first.
+  values: number[][];
+};
+
+export type CircleWallpaperIntensityImage = CircleWallpaperIntensityPlacement & {
+  // Any image URL, e.g. "/logo.svg"; it is sampled down to one value per cell.
+  src: string;
+  columns: number;
+  // Defaults to the image's aspect ratio, corrected for the grid's spacing.
+  rows?: number;
+  // Which part of each pixel lights a circle.
+  channel?: "alpha" | "luminance";
+  invert?: boolean;
+};
+
+// Opacity from 0 to 1 for a cell, or null to keep its random intensity. row and worldColumn
+// are the cell's ids, which stay fixed while the grid drifts. Cells it throws on are fully lit,
+// and the first error goes to onError.
+export type CircleWallpaperIntensityCallback = (row: number, worldColumn: number) => number | null;
+
+export type CircleWallpaperIntensity =
+  | CircleWallpaperIntensityMap
+  | CircleWallpaperIntensityImage
+  | CircleWallpaperIntensityCallback;
+
+// What views accept: images arrive already sampled into a map.
+export type CircleWallpaperSceneIntensity =
+  | CircleWallpaperIntensityMap
+  | CircleWallpaperIntensityCallback;
+
+export const isIntensityImage = (
+  intensity: CircleWallpaperIntensity,
+): intensity is CircleWallpaperIntensityImage =>
+  typeof intensity === "object" && "src" in intensity;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const finiteOr = (value: number | undefined, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+const wrap = (value: number, size: number) => ((value % size) + size) % size;
+
+export type IntensitySampler = {
+  // The source's opacity for a cell at a position in grid cells, or null where the source does
+  // not reach.
+  sample: (gridX: number, gridY: number, row: number, worldColumn: number) => number | null;
+  strength: number;
+};
+
+// Map values are scaled so 0 lands on minOpacity; callbacks return opacities directly.
+export function createIntensitySampler(
+  intensity: CircleWallpaperSceneIntensity,
+  minOpacity: number,
+): IntensitySampler {
+  if (typeof intensity === "function") {
+    return {
+      sample: (_gridX, _gridY, row, worldColumn) => {
+        const value = intensity(row, worldColumn);
+        return typeof value === "number" && Number.isFinite(value) ? clamp01(value) : null;
+      },
+      strength: 1,
+    };
+  }
+
+  const { values } = intensity;
+  const height = values.length;
+  const width = values.reduce((widest, row) => Math.max(widest, row.length), 0);
+  const strength = clamp01(finiteOr(intensity.strength, 1));
+  if (width === 0) {
+    return { sample: () => null, strength };
+  }
+  const scale = Math.max(1e-3, finiteOr(intensity.scale, 1));
+  const left = finiteOr(intensity.column, -(width * scale) / 2);
+  const top = finiteOr(intensity.row, (height * scale) / 2);
+  const repeat = intensity.repeat === true;
+  const valueAt = (column: number, row: number) => {
+    const value = values[repeat ? wrap(row, height) : row]?.[repeat ? wrap(column, width) : column];
+    return typeof value === "number" && Number.isFinite(value) ? clamp01(value) : 0;
+  };
+
+  // Bilinear, so staggered rows that fall between two values get a blend of both.
+  const sample = (gridX: number, gridY: number) => {
+    let u = (gridX - left) / scale;
+    let v = (top - gridY) / scale;
+    if (!repeat) {
+      if (u < -0.5 || u > width - 0.5 || v < -0.5 || v > height - 0.5) {
+        return null;
+      }
+      u = Math.min(width - 1, Math.max(0, u));
+      v = Math.min(height - 1, Math.max(0, v));
+    }
+    const column = Math.floor(u);
+    const row = Math.floor(v);
+    const fractionU = u - column;
+    const fractionV = v - row;
+    const nextColumn = repeat ? column + 1 : Math.min(width - 1, column + 1);
+    const nextRow = repeat ? row + 1 : Math.min(height - 1, row + 1);
+    const upper = valueAt(column, row) * (1 - fractionU) + valueAt(nextColumn, row) * fractionU;
+    const lower =
+      valueAt(column, nextRow) * (1 - fractionU) + valueAt(nextColumn, nextRow) * fractionU;
+    return minOpacity + (1 - minOpacity) * (upper * (1 - fractionV) + lower * fractionV);
+  };
+  return { sample, strength };
+}
+
+const LUMINANCE_WEIGHTS = [0.2126, 0.7152, 0.0722];
+
+// Draws the image at one pixel per cell and reads the chosen channel back as a map.
+// cellAspect is the grid's x spacing over its y spacing, so the image keeps its proportions.
+export function loadIntensityImage(
+  image: CircleWallpaperIntensityImage,
+  cellAspect: number,
+): Promise<CircleWallpaperIntensityMap> {
+  return new Promise((resolve, reject) => {
+    const element = new Image();
+    element.crossOrigin = "anonymous";
+    element.onload = () => {
+      const columns = Math.max(1, Math.round(finiteOr(image.columns, 1)));
+      const aspect =
+        element.naturalWidth > 0 && element.naturalHeight > 0
+          ? element.naturalHeight / element.naturalWidth
+          : 1;
+      const rows = Math.max(
+        1,
+        Math.round(finiteOr(image.rows, columns * aspect * cellAspect)),
+      );
+      const canvas = document.createElement("canvas");
+      canvas.width = columns;
+      canvas.height = rows;
+      const context = canvas.getContext("2d", { willReadFrequently: true });
+      if (!context) {
+        reject(new Error("CircleWallpaper could not sample the intensity image"));
+        return;
+      }
+      context.drawImage(element, 0, 0, columns, rows);
+      const { data } = context.getImageData(0, 0, columns, rows);
+      const values: number[][] = [];
+      for (let row = 0; row < rows; row += 1) {
+        const line: number[] = [];
+        for (let column = 0; column < columns; column += 1) {
+          const offset = (row * columns + column) * 4;
+          const alpha = data[offset + 3] / 255;
+          const value =
+            image.channel === "luminance"
+              ? (LUMINANCE_WEIGHTS[0] * data[offset] +
+                  LUMINANCE_WEIGHTS[1] * data[offset + 1] +
+                  LUMINANCE_WEIGHTS[2] * data[offset + 2]) /
+                255 *
+                alpha
+              : alpha;
+          line.push(image.invert ? 1 - value : value);
+        }
+        values.push(line);
+      }
+      resolve({
+        values,
+        column: image.column,
+        row: image.row,
+        scale: image.scale,
+        repeat: image.repeat,
+        strength: image.strength,
+      });
+    };
+    element.onerror = () => {
+      reject(new Error(`Failed to load intensity image ${image.src}`));
+    };
+    element.src = image.src;
+  });
+}
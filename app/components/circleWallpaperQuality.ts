@@ -0,0 +1,144 @@
+// app/components/circleWallpaperQuality.ts
+export const CIRCLE_WALLPAPER_QUALITIES = ["minimal", "low", "medium", "high"] as const;
+
+export type CircleWallpaperQuality = (typeof CIRCLE_WALLPAPER_QUALITIES)[number];
+
+export type QualityTier = {
+  maxPixelRatio: number;
+  depthOfField: boolean;
+  particleDensity: number;
+  spacingScale: number;
+};
+
+export const QUALITY_TIERS: Record<CircleWallpaperQuality, QualityTier> = {
+  high: { maxPixelRatio: 1.7, depthOfField: true, particleDensity: 1, spacingScale: 1 },
+  medium: { maxPixelRatio: 1.25, depthOfField: true, particleDensity: 0.7, spacingScale: 1 },
+  low: { maxPixelRatio: 1, depthOfField: false, particleDensity: 0.4, spacingScale: 1.15 },
+  minimal: { maxPixelRatio: 0.75, depthOfField: false, particleDensity: 0, spacingScale: 1.35 },
+};
+
+export const DEFAULT_MIN_QUALITY: CircleWallpaperQuality = "minimal";
+export const DEFAULT_MAX_QUALITY: CircleWallpaperQuality = "high";
+
+// Frame times are smoothed, then must stay past a threshold for a while before the tier moves.
+// The gap between the slow and fast thresholds plus the longer upgrade wait is the hysteresis.
+const SLOW_FRAME_MS = 1000 / 45;
+const FAST_FRAME_MS = 1000 / 56;
+const FRAME_TIME_SMOOTHING = 0.1;
+const DOWNGRADE_AFTER_MS = 1500;
+const UPGRADE_AFTER_MS = 5000;
+const MAX_UPGRADE_AFTER_MS = 60000;
+// A downgrade this soon after an upgrade means the upgrade did not fit; wait longer next time.
+const UPGRADE_PROBATION_MS = 4000;
+// Skip the frames right after a change; relayout and shader recompiles make them slow.
+const SETTLE_MS = 750;
+// Longer gaps are stalls (tab switches, debugger pauses), not rendering cost.
+const MAX_FRAME_SAMPLE_MS = 250;
+
+export type QualityGovernor = {
+  readonly quality: CircleWallpaperQuality;
+  sample: (frameMs: number) => CircleWallpaperQuality | null;
+  setRange: (
+    minQuality: CircleWallpaperQuality,
+    maxQuality: CircleWallpaperQuality,
+  ) => CircleWallpaperQuality | null;
+};
+
+export function isCircleWallpaperQuality(value: unknown): value is CircleWallpaperQuality {
+  return (CIRCLE_WALLPAPER_QUALITIES as readonly unknown[]).includes(value);
+}
+
+export function createQualityGovernor(
+  minQuality: CircleWallpaperQuality = DEFAULT_MIN_QUALITY,
+  maxQuality: CircleWallpaperQuality = DEFAULT_MAX_QUALITY,
+): QualityGovernor {
+  let minIndex = 0;
+  let maxIndex = CIRCLE_WALLPAPER_QUALITIES.length - 1;
+  let averageFrameMs: number | null = null;
+  let slowForMs = 0;
+  let fastForMs = 0;
+  let settleMs = SETTLE_MS;
+  let upgradeAfterMs = UPGRADE_AFTER_MS;
+  let sinceUpgradeMs = Number.POSITIVE_INFINITY;
+
+  const applyRange = (
+    nextMinQuality: CircleWallpaperQuality,
+    nextMaxQuality: CircleWallpaperQuality,
+  ) => {
+    const nextMinIndex = CIRCLE_WALLPAPER_QUALITIES.indexOf(nextMinQuality);
+    const nextMaxIndex = CIRCLE_WALLPAPER_QUALITIES.indexOf(nextMaxQuality);
+    minIndex = Math.min(nextMinIndex, nextMaxIndex);
+    maxIndex = Math.max(nextMinIndex, nextMaxIndex);
+  };
+
+  applyRange(minQuality, maxQuality);
+  // Start optimistic; the governor only steps down once slow frames are measured.
+  let index = maxIndex;
+
+  const moveTo = (nextIndex: number) => {
+    if (nextIndex === index) {
+      return null;
+    }
+    if (nextIndex > index) {
+      sinceUpgradeMs = 0;
+    } else if (sinceUpgradeMs < UPGRADE_PROBATION_MS) {
+      upgradeAfterMs = Math.min(MAX_UPGRADE_AFTER_MS, upgradeAfterMs * 2);
+    }
+    index = nextIndex;
+    averageFrameMs = null;
+    slowForMs = 0;
+    fastForMs = 0;
+    settleMs = SETTLE_MS;
+    return CIRCLE_WALLPAPER_QUALITIES[index];
+  };
+
+  const sample = (frameMs: number) => {
+    if (!(frameMs > 0) || frameMs > MAX_FRAME_SAMPLE_MS) {
+      return null;
+    }
+    sinceUpgradeMs += frameMs;
+    if (settleMs > 0) {
+      settleMs -= frameMs;
+      return null;
+    }
+
+    averageFrameMs =
+      averageFrameMs === null
+        ? frameMs
+        : averageFrameMs + (frameMs - averageFrameMs) * FRAME_TIME_SMOOTHING;
+    if (averageFrameMs > SLOW_FRAME_MS) {
+      slowForMs += frameMs;
+      fastForMs = 0;
+    } else if (averageFrameMs < FAST_FRAME_MS) {
+      fastForMs += frameMs;
+      slowForMs = 0;
+    } else {
+      slowForMs = 0;
+      fastForMs = 0;
+    }
+
+    if (slowForMs >= DOWNGRADE_AFTER_MS && index > minIndex) {
+      return moveTo(index - 1);
+    }
+    if (fastForMs >= upgradeAfterMs && index < maxIndex) {
+      return moveTo(index + 1);
+    }
+    return null;
+  };
+
+  const setRange = (
+    nextMinQuality: CircleWallpaperQuality,
+    nextMaxQuality: CircleWallpaperQuality,
+  ) => {
+    applyRange(nextMinQuality, nextMaxQuality);
+    return moveTo(Math.min(maxIndex, Math.max(minIndex, index)));
+  };
+
+  return {
+    get quality() {
+      return CIRCLE_WALLPAPER_QUALITIES[index];
+    },
+    sample,
+    setRange,
+  };
+}
@@ -0,0 +1,3097 @@
+// app/components/circleWallpaperScene.ts
+import * as THREE from "three";
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
+import {
+  QUALITY_TIERS,
+  createQualityGovernor,
+  type CircleWallpaperQuality,
+  type QualityTier,
+} from "./circleWallpaperQuality";
+import {
+  CIRCLE_WALLPAPER_THEMES,
+  type CircleWallpaperGradientStop,
+  type CircleWallpaperTheme,
+} from "./circleWallpaperTheme";
+import {
+  collectLatticeCells,
+  isRowLattice,
+  resolveCellDiameter,
+  type CircleWallpaperGrid,
+} from "./circleWallpaperGrid";
+import {
+  resolveDepthOfFieldSamples,
+  type CircleWallpaperDepthOfField,
+} from "./circleWallpaperDepthOfField";
+import { createDepthOfFieldPass, type DepthOfFieldPass } from "./circleWallpaperDepthOfFieldPass";
+import {
+  createEffectPasses,
+  type CircleWallpaperEffect,
+  type EffectPasses,
+} from "./circleWallpaperEffects";
+import {
+  createIntensitySampler,
+  type CircleWallpaperSceneIntensity,
+  type IntensitySampler,
+} from "./circleWallpaperIntensity";
+import {
+  DEFAULT_TRANSITION,
+  createTween,
+  type CircleWallpaperTransition,
+} from "./circleWallpaperTransition";
+import {
+  DEFAULT_WAVE_FIELD,
+  getWaveField,
+  glslFloat,
+  type RegisteredWaveField,
+  type WavePhases,
+} from "./circleWallpaperWaveFields";
+
+const MIN_OPACITY = 0.08;
+const HALF_OPACITY = 0.5;
+const FALLOFF_POWER = 3.2;
+// Rows are recycled in pairs so staggered rows keep their parity.
+const ROW_RECYCLE_STEP = 2;
+// Reduced motion drops the drift, the largest moving area, and slows everything else.
+const REDUCED_MOTION_TIME_SCALE = 0.25;
+const CAMERA_FOV = 40;
+const CAMERA_NEAR = 0.1;
+const CAMERA_FAR = 200;
+const GRID_PLANE_Z = 0;
+const PARTICLE_SPAWN_CHANCE = 0.48;
+const PARTICLE_OFFSET_X_RATIO = 0.75;
+const PARTICLE_OFFSET_Y_RATIO = 0.6;
+const PARTICLE_SIZE_MIN_RATIO = 0.08;
+const PARTICLE_SIZE_MAX_RATIO = 0.24;
+const PARTICLE_FLOAT_AMPLITUDE_MIN_RATIO = 0.15;
+const PARTICLE_FLOAT_AMPLITUDE_MAX_RATIO = 0.38;
+const PARTICLE_FLOAT_SPEED_MIN = 1.15;
+const PARTICLE_FLOAT_SPEED_MAX = 3.1;
+const PARTICLE_PULSE_SPEED_MIN = 0.6;
+const PARTICLE_PULSE_SPEED_MAX = 1.6;
+const PARTICLE_DEPTH_OFFSET_RATIO = 0.2;
+const PARTICLE_PULSE_STRENGTH = 0.3;
+const PARTICLE_SHIMMER_STRENGTH = 0.18;
+const PARTICLE_DRIFT_X_RATIO = 0.22;
+const PARTICLE_DRIFT_SPEED_MIN = 0.65;
+const PARTICLE_DRIFT_SPEED_MAX = 1.6;
+const PARTICLE_SPIN_SPEED_MIN = 1.25;
+const PARTICLE_SPIN_SPEED_MAX = 3.4;
+const PARTICLE_SWIRL_Z_RATIO = 0.14;
+const PARTICLE_SWIRL_SPEED_MIN = 0.7;
+const PARTICLE_SWIRL_SPEED_MAX = 1.9;
+// The waveTime uniform wraps after this many seconds, since float32 loses the precision sin needs
+// within hours. Particle rates are rounded to whole cycles per period so the wrap is seamless.
+const WAVE_TIME_PERIOD = 200 * Math.PI;
+// Rounds an angular speed to whole cycles per WAVE_TIME_PERIOD; a larger step keeps fractions of
+// the speed whole too.
+const periodicSpeed = (speed: number, step = 1) => {
+  const unit = ((Math.PI * 2) / WAVE_TIME_PERIOD) * step;
+  return Math.round(speed / unit) * unit;
+};
+// Depth of field tuning values; the falloff ones apply when depthOfField.falloff is unset.
+const DOF_FOCUS_FRONT_BIAS = 0;
+const DOF_FOCUS_FALLOFF_BASE = 1.25;
+const DOF_FOCUS_FALLOFF_VARIANCE = 0.9;
+const DOF_MIN_FOCUS_RANGE = 0.01;
+// Upper bound on circles sampled per frame when tracking the crest for depth of field.
+const WAVE_CREST_SAMPLE_LIMIT = 96;
+// Pointer disturbances: ripples are kept in a fixed uniform array, oldest replaced first.
+const INTERACTION_RIPPLE_COUNT = 8;
+// Ripple fronts travel this many circle diameters per second.
+const INTERACTION_RIPPLE_SPEED = 4;
+const INTERACTION_FOLLOW_RATE = 10;
+const INTERACTION_MIN_AMPLITUDE = 0.002;
+// Highlight regions share a fixed uniform array; regions past this count are ignored.
+const HIGHLIGHT_COUNT = 8;
+const SECONDARY_WAVE_RATIO = 0.15;
+const RIPPLE_WAVE_RATIO = 0.05;
+const STATS_FRAME_SMOOTHING = 0.1;
+// Longer gaps are stalls, not frames; they would drag the reported frame rate down.
+const STATS_MAX_FRAME_MS = 250;
+
+// Uniforms the wave field and the vertex shaders read; the field itself is spliced in after.
+const WAVE_UNIFORMS_GLSL = `
+uniform float waveTime;
+uniform vec2 waveScroll;
+uniform float waveLength;
+uniform vec3 waveAmplitudes;
+// Phases are integrated on the CPU so speed changes never jump the wave.
+uniform vec4 wavePhases;
+uniform vec4 waveSpatial;
+// cos and sin of the wave direction.
+uniform vec2 waveDirection;
+uniform vec2 waveOrigin;
+`;
+
+// Shared by the circle and particle vertex shaders, so both follow the same wave field.
+// Mirrors sampleWaveHeight below, which the CPU only uses to keep depth of field on the crest.
+const WAVE_FUNCTIONS_GLSL = `
+vec3 waveComponents( vec2 wavePoint ) {
+\tvec2 offset = wavePoint - waveOrigin;
+\treturn waveField( vec2(
+\t\toffset.x * waveDirection.x + offset.y * waveDirection.y,
+\t\toffset.y * waveDirection.x - offset.x * waveDirection.y
+\t) );
+}
+
+// xy: pointer in wave space, z: bulge height, w: radius.
+uniform vec4 interactionPointer;
+// xy: origin in wave space, z: front distance, w: height.
+uniform vec4 interactionRipples[ ${INTERACTION_RIPPLE_COUNT} ];
+
+float interactionHeight( vec2 wavePoint ) {
+\tfloat radius = max( interactionPointer.w, 1e-3 );
+\tvec2 toPointer = wavePoint - interactionPointer.xy;
+\tfloat height = interactionPointer.z * exp( -dot( toPointer, toPointer ) / ( radius * radius ) );
+\tfor ( int i = 0; i < ${INTERACTION_RIPPLE_COUNT}; i ++ ) {
+\t\tvec4 ripple = interactionRipples[ i ];
+\t\tfloat offset = distance( wavePoint, ripple.xy ) - ripple.z;
+\t\theight += ripple.w * cos( offset * PI2 / radius ) * exp( -offset * offset / ( radius * radius ) );
+\t}
+\treturn height;
+}
+
+vec2 interactionPush( vec2 wavePoint ) {
+\tfloat radius = max( interactionPointer.w, 1e-3 );
+\tvec2 away = wavePoint - interactionPointer.xy;
+\tfloat distanceSq = dot( away, away );
+\treturn away * inversesqrt( distanceSq + 1e-6 ) * abs( interactionPointer.z ) *
+\t\texp( -distanceSq / ( radius * radius ) );
+}
+
+uniform int highlightCount;
+// xy: center in wave space, zw: unit axis along the region's width.
+uniform vec4 highlightFrames[ ${HIGHLIGHT_COUNT} ];
+// xy: half size, z: falloff, w: opacity outside the region.
+uniform vec4 highlightSizes[ ${HIGHLIGHT_COUNT} ];
+// x: opacity inside the region, y: wave height inside it.
+uniform vec2 highlightEffects[ ${HIGHLIGHT_COUNT} ];
+
+// x: opacity scale, y: wave height scale.
+vec2 highlightFactors( vec2 wavePoint ) {
+\tvec2 factors = vec2( 1.0 );
+\tfor ( int i = 0; i < ${HIGHLIGHT_COUNT}; i ++ ) {
+\t\tif ( i >= highlightCount ) break;
+\t\tvec4 frame = highlightFrames[ i ];
+\t\tvec4 size = highlightSizes[ i ];
+\t\tvec2 offset = wavePoint - frame.xy;
+\t\tvec2 local = vec2( dot( offset, frame.zw ), dot( offset, vec2( -frame.w, frame.z ) ) );
+\t\tfloat outside = length( max( abs( local ) - size.xy, 0.0 ) );
+\t\tfloat inside = 1.0 - smoothstep( 0.0, max( size.z, 1e-3 ), outside );
+\t\tfactors *= mix( vec2( size.w, 1.0 ), highlightEffects[ i ], inside );
+\t}
+\treturn factors;
+}
+`;
+
+const CIRCLE_VERTEX_GLSL = `
+\tvec2 wavePoint = instanceMatrix[ 3 ].xy - waveScroll;
+\tvec3 waveTerms = waveComponents( wavePoint );
+\tvec2 highlight = highlightFactors( wavePoint );
+\tfloat totalWaveHeight = ( waveTerms.x + waveTerms.y + waveTerms.z ) * highlight.y +
+\t\tinteractionHeight( wavePoint );
+\ttransformed.z += totalWaveHeight;
+\tfloat amplitudeSafe = max( 1e-6, waveAmplitudes.x );
+\tfloat waveIntensity = clamp( ( totalWaveHeight + amplitudeSafe ) / ( amplitudeSafe * 2.0 ), 0.0, 1.0 );
+\tfloat pulsePhase = mod(
+\t\twavePhases.w + wavePoint.x * waveSpatial.z + wavePoint.y * waveSpatial.w,
+\t\tPI2
+\t);
+\tfloat sharpPulse = pow( ( sin( pulsePhase ) + 1.0 ) * 0.5, 0.3 );
+\tfloat finalMultiplier = mix( 0.9, 1.1, waveIntensity ) * mix( 1.0, 1.2, sharpPulse );
+\tvInstanceOpacity = min( 1.0, instanceOpacity * finalMultiplier * highlight.x );
+`;
+
+const PARTICLE_VERTEX_GLSL = `
+\tvec2 wavePoint = instanceMatrix[ 3 ].xy - waveScroll;
+\tvec3 waveTerms = waveComponents( wavePoint );
+\tvec2 highlight = highlightFactors( wavePoint );
+\tfloat combinedWave = ( waveTerms.x + waveTerms.y * 0.6 + waveTerms.z * 0.45 ) * particleFloat.w *
+\t\thighlight.y;
+\tfloat floatOffset = sin( waveTime * particleFloat.y + particleFloat.z ) * particleFloat.x;
+\tfloat driftOffset = sin( waveTime * particleDrift.y + particleDrift.z ) * particleDrift.x;
+\tfloat swirlOffset = sin( waveTime * particleSwirl.y + particleSwirl.z ) * particleSwirl.x;
+\tfloat spinAngle = waveTime * particleSpin.x + particleSpin.y;
+\tfloat spinCos = cos( spinAngle );
+\tfloat spinSin = sin( spinAngle );
+\ttransformed.xy = vec2(
+\t\ttransformed.x * spinCos - transformed.y * spinSin,
+\t\ttransformed.x * spinSin + transformed.y * spinCos
+\t);
+\tvec2 particleScale = vec2( length( instanceMatrix[ 0 ].xyz ), length( instanceMatrix[ 1 ].xyz ) );
+\tvec2 particleOffset = vec2( driftOffset, floatOffset ) + interactionPush( wavePoint );
+\ttransformed.xy += particleOffset / max( particleScale, vec2( 1e-6 ) );
+\ttransformed.z += combinedWave + swirlOffset + interactionHeight( wavePoint );
+\tfloat pulse = 1.0 - PARTICLE_PULSE_STRENGTH +
+\t\tsin( waveTime * particleDrift.w + particleSwirl.w ) * PARTICLE_PULSE_STRENGTH;
+\tfloat shimmer = 1.0 - PARTICLE_SHIMMER_STRENGTH +
+\t\tsin( waveTime * ( particleDrift.w * 0.5 + 0.3 ) + particleFloat.z ) * PARTICLE_SHIMMER_STRENGTH;
+\tfloat amplitudeSafe = max( 1e-6, waveAmplitudes.x );
+\tfloat waveGlow = mix( 0.92, 1.18, clamp( abs( combinedWave ) / ( amplitudeSafe + 1e-6 ), 0.0, 1.0 ) );
+\tvParticleOpacity = clamp( instanceOpacity * pulse * shimmer * waveGlow * highlight.x, 0.0, 1.0 );
+`;
+
+function createCanvas2D(width: number, height = width) {
+  // Workers have no document; OffscreenCanvas keeps texture generation working there.
+  if (typeof document === "undefined") {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext("2d") };
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, context: canvas.getContext("2d") };
+}
+
+// Browsers copy the canvas when encoding starts, so this must run right after rendering,
+// before the compositor may clear the drawing buffer.
+function encodeCanvas(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  type?: string,
+  quality?: number,
+) {
+  if ("convertToBlob" in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error("CircleWallpaper could not encode the frame"));
+        }
+      },
+      type,
+      quality,
+    );
+  });
+}
+
+function createFrameTimer() {
+  let averageMs = 0;
+  return {
+    sample: (frameMs: number) => {
+      if (frameMs > 0 && frameMs <= STATS_MAX_FRAME_MS) {
+        averageMs =
+          averageMs === 0 ? frameMs : averageMs + (frameMs - averageMs) * STATS_FRAME_SMOOTHING;
+      }
+    },
+    reset: () => {
+      averageMs = 0;
+    },
+    get frameMs() {
+      return averageMs;
+    },
+    get fps() {
+      return averageMs > 0 ? 1000 / averageMs : 0;
+    },
+  };
+}
+
+function createParticleTexture(stops: CircleWallpaperGradientStop[], size = 128) {
+  const { canvas, context } = createCanvas2D(size);
+  if (!context) {
+    const fallback = new THREE.Texture();
+    fallback.needsUpdate = true;
+    return fallback;
+  }
+  const center = size / 2;
+  const gradient = context.createRadialGradient(center, center, size * 0.08, center, center, center);
+  for (const stop of stops) {
+    gradient.addColorStop(THREE.MathUtils.clamp(stop.offset, 0, 1), stop.color);
+  }
+  context.clearRect(0, 0, size, size);
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, size, size);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.anisotropy = 1;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+type BaseInstanceData = {
+  baseX: number;
+  baseY: number;
+  row: number;
+  worldColumn: number;
+  baseOpacity: number;
+};
+
+type LayoutState = {
+  hasData: boolean;
+  xSpacing: number;
+  ySpacing: number;
+  diameter: number;
+  baseZ: number;
+  scaleX: number;
+  scaleY: number;
+};
+
+type ParticleInstanceData = {
+  baseX: number;
+  baseY: number;
+  size: number;
+  floatAmplitude: number;
+  floatSpeed: number;
+  floatPhase: number;
+  pulseSpeed: number;
+  pulseOffset: number;
+  waveStrength: number;
+  depthOffset: number;
+  baseOpacity: number;
+  driftAmplitude: number;
+  driftSpeed: number;
+  driftPhase: number;
+  driftDirection: number;
+  swirlAmplitude: number;
+  swirlSpeed: number;
+  swirlPhase: number;
+  swirlDirection: number;
+  spinSpeed: number;
+  spinPhase: number;
+};
+
+export type WaveParams = {
+  amplitude: number;
+  secondaryAmplitude: number;
+  rippleAmplitude: number;
+  waveLength: number;
+  // Radians; rotates the wave pattern within the grid plane.
+  direction: number;
+  // Where the field is centered, e.g. where radial rings start; world units from the grid center.
+  originX: number;
+  originZ: number;
+  speed: number;
+  secondaryFrequency: number;
+  rippleFrequencyX: number;
+  rippleFrequencyZ: number;
+  rippleSpeed: number;
+  pulseSpeed: number;
+  pulseSpatialX: number;
+  pulseSpatialZ: number;
+};
+
+export const DEFAULT_WAVE_PARAMS: WaveParams = {
+  amplitude: 1,
+  secondaryAmplitude: SECONDARY_WAVE_RATIO,
+  rippleAmplitude: RIPPLE_WAVE_RATIO,
+  waveLength: 4,
+  direction: 0,
+  originX: 0,
+  originZ: 0,
+  speed: 1.2,
+  secondaryFrequency: 1.5,
+  rippleFrequencyX: 2.5,
+  rippleFrequencyZ: 1.8,
+  rippleSpeed: 3.0,
+  pulseSpeed: 1.5,
+  pulseSpatialX: 0.8,
+  pulseSpatialZ: 0.6,
+};
+
+const WAVE_PARAM_KEYS = Object.keys(DEFAULT_WAVE_PARAMS) as Array<keyof WaveParams>;
+
+// Fills in missing fields; unset secondary and ripple amplitudes stay proportional to the
+// primary amplitude, which itself defaults to waveHeight.
+export function resolveWaveParams(wave: Partial<WaveParams> | undefined, waveHeight: number) {
+  const resolved: WaveParams = { ...DEFAULT_WAVE_PARAMS };
+  for (const key of WAVE_PARAM_KEYS) {
+    const value = wave?.[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      resolved[key] = value;
+    }
+  }
+  if (!Number.isFinite(wave?.amplitude)) {
+    resolved.amplitude = waveHeight;
+  }
+  if (!Number.isFinite(wave?.secondaryAmplitude)) {
+    resolved.secondaryAmplitude = resolved.amplitude * SECONDARY_WAVE_RATIO;
+  }
+  if (!Number.isFinite(wave?.rippleAmplitude)) {
+    resolved.rippleAmplitude = resolved.amplitude * RIPPLE_WAVE_RATIO;
+  }
+  if (resolved.waveLength <= 0) {
+    resolved.waveLength = DEFAULT_WAVE_PARAMS.waveLength;
+  }
+  return resolved;
+}
+
+function sampleWaveHeight(
+  worldX: number,
+  worldZ: number,
+  sample: NonNullable<RegisteredWaveField["sample"]>,
+  phases: WavePhases,
+  waveParams: WaveParams,
+  time: number,
+) {
+  const { direction } = waveParams;
+  const directionCos = Math.cos(direction);
+  const directionSin = Math.sin(direction);
+  const offsetX = worldX - waveParams.originX;
+  const offsetZ = worldZ - waveParams.originZ;
+  return sample(
+    offsetX * directionCos + offsetZ * directionSin,
+    offsetZ * directionCos - offsetX * directionSin,
+    { params: waveParams, phases, time },
+  );
+}
+
+export const CIRCLE_WALLPAPER_MOTIONS = ["full", "reduced", "none"] as const;
+
+export type CircleWallpaperMotion = (typeof CIRCLE_WALLPAPER_MOTIONS)[number];
+
+export function isCircleWallpaperMotion(value: unknown): value is CircleWallpaperMotion {
+  return (CIRCLE_WALLPAPER_MOTIONS as readonly unknown[]).includes(value);
+}
+
+const MOTION_SPEEDS: Record<CircleWallpaperMotion, { time: number; scroll: number }> = {
+  full: { time: 1, scroll: 1 },
+  reduced: { time: REDUCED_MOTION_TIME_SCALE, scroll: 0 },
+  none: { time: 0, scroll: 0 },
+};
+
+// Sizes are in circle diameters; decay is the exponential fade rate per second.
+export type CircleWallpaperInteraction = {
+  strength: number;
+  radius: number;
+  decay: number;
+};
+
+// Normalized to the wallpaper's own rect: 0,0 is the top left corner, 1,1 the bottom right.
+export type CircleWallpaperPoint = {
+  x: number;
+  y: number;
+};
+
+// A region of the wallpaper, in the same normalized coordinates as CircleWallpaperPoint, and how
+// the circles inside and around it react.
+export type CircleWallpaperHighlight = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Width of the soft edge outside the region, as a fraction of the wallpaper's height.
+  falloff: number;
+  // Opacity multipliers inside and outside the region: below 1 dims, above 1 brightens.
+  opacity: number;
+  outsideOpacity: number;
+  // Multiplies the wave height inside the region; 0 flattens it.
+  wave: number;
+};
+
+export type CameraVector = {
+  x?: number;
+  y?: number;
+  z?: number;
+};
+
+export type CircleWallpaperSceneOptions = {
+  cameraDistance: number;
+  cameraTranslation: Required<CameraVector>;
+  cameraRotation: Required<CameraVector>;
+  blurIntensity: number;
+  // Drives circle intensities and particle placement; null picks a new layout per view.
+  seed: number | null;
+  grid: CircleWallpaperGrid;
+  flow: CircleWallpaperFlow;
+  depthOfField: CircleWallpaperDepthOfField;
+};
+
+// World units per second along the grid's rows (x) and across them (y).
+export type CircleWallpaperFlow = { x: number; y: number };
+
+export const DEFAULT_FLOW: CircleWallpaperFlow = { x: 2, y: 0 };
+
+export type CircleWallpaperCamera = Pick<
+  CircleWallpaperSceneOptions,
+  "cameraDistance" | "cameraTranslation" | "cameraRotation"
+>;
+
+export type CircleWallpaperStats = {
+  quality: CircleWallpaperQuality;
+  // Smoothed over recent frames; both are 0 while the animation loop is stopped.
+  fps: number;
+  frameMs: number;
+  // Seconds on the wallpaper clock.
+  time: number;
+  circles: number;
+  particles: number;
+  width: number;
+  height: number;
+  pixelRatio: number;
+};
+
+export type CircleWallpaperViewport = {
+  width: number;
+  height: number;
+  pixelRatio: number;
+};
+
+export type CircleWallpaperRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+export type CircleWallpaperInstance = {
+  // Applies in place; only a lost context rebuilds the scene.
+  // Camera, blur and wave changes from setOptions and setWave ease over this transition.
+  setOptions: (options: CircleWallpaperSceneOptions) => void;
+  setTransition: (transition: CircleWallpaperTransition) => void;
+  // Colors apply in place; a new circleTextureUrl still has to be loaded and passed to setCircleImage.
+  setTheme: (theme: CircleWallpaperTheme) => void;
+  setCircleImage: (image: HTMLImageElement | ImageBitmap) => void;
+  setVisible: (visible: boolean) => void;
+  // "none" stops the animation loop; the wallpaper only redraws when it has to.
+  setMotion: (motion: CircleWallpaperMotion) => void;
+  // Seconds on the wallpaper's clock, which drives the wave, particles and scroll together.
+  // Holds the clock at that time until released with null, after which it runs on from there.
+  setTime: (seconds: number | null) => void;
+  setPaused: (paused: boolean) => void;
+  // Scales how fast the clock runs; negative rates play backwards.
+  setPlaybackRate: (rate: number) => void;
+  // Tweens from the current wave to the new one without rebuilding the scene.
+  setWave: (wave: WaveParams) => void;
+  // A built-in or registered wave field; unknown names fall back to the default sines.
+  setWaveField: (name: string) => void;
+  // Lights circles from a map or callback instead of random rolls; null restores the rolls.
+  setIntensity: (intensity: CircleWallpaperSceneIntensity | null) => void;
+  // Replaces all highlight regions; an empty list clears them.
+  setHighlights: (highlights: CircleWallpaperHighlight[]) => void;
+  // Post-processing after depth of field, in order; built-in passes are rebuilt on every call.
+  setEffects: (effects: CircleWallpaperEffect[]) => void;
+  // Camera and blur jump in place without a transition; later setOptions calls override them.
+  setCamera: (camera: CircleWallpaperCamera) => void;
+  setBlur: (blurIntensity: number) => void;
+  // Renders a fresh frame and encodes it, e.g. as "image/png".
+  captureFrame: (type?: string, quality?: number) => Promise<Blob>;
+  getStats: () => Promise<CircleWallpaperStats>;
+  // Null disables pointer interaction and clears any running disturbance.
+  setInteraction: (interaction: CircleWallpaperInteraction | null) => void;
+  setPointer: (point: CircleWallpaperPoint | null) => void;
+  addRipple: (point: CircleWallpaperPoint) => void;
+  // Shared instances follow the provider's quality range instead of their own.
+  setQualityRange: (minQuality: CircleWallpaperQuality, maxQuality: CircleWallpaperQuality) => void;
+  dispose: () => void;
+};
+
+export type CircleWallpaperRenderer = CircleWallpaperInstance & {
+  resize: (viewport: CircleWallpaperViewport) => void;
+};
+
+export type SharedCircleWallpaperRenderer = {
+  attach: (
+    options: CircleWallpaperSceneOptions,
+    getRect: () => CircleWallpaperRect,
+    onFailure?: CircleWallpaperFailureListener,
+  ) => CircleWallpaperInstance;
+  mount: (canvas: HTMLCanvasElement, viewport: CircleWallpaperViewport) => void;
+  unmount: () => void;
+  resize: (viewport: CircleWallpaperViewport) => void;
+  setVisible: (visible: boolean) => void;
+  // Redraws a stopped canvas, e.g. after the page scrolled under frozen wallpapers.
+  refresh: () => void;
+  setQualityRange: (minQuality: CircleWallpaperQuality, maxQuality: CircleWallpaperQuality) => void;
+  setQualityListener: (listener: CircleWallpaperQualityListener | undefined) => void;
+};
+
+export type CircleWallpaperQualityListener = (quality: CircleWallpaperQuality) => void;
+
+// Called with the error when WebGL is unavailable or the context is lost, and with null once
+// a restored context has been rebuilt.
+export type CircleWallpaperFailureListener = (error: Error | null) => void;
+
+export type CircleWallpaperRendererSettings = {
+  minQuality: CircleWallpaperQuality;
+  maxQuality: CircleWallpaperQuality;
+  onQualityChange?: CircleWallpaperQualityListener;
+  onFailure?: CircleWallpaperFailureListener;
+  // Problems the wallpaper keeps running through, such as options a host cannot apply.
+  onError?: (error: Error) => void;
+};
+
+// Integer seeds are used as is; anything else is hashed (FNV-1a) from its string form.
+export function resolveSeed(seed: number | string) {
+  if (typeof seed === "number" && Number.isInteger(seed)) {
+    return seed >>> 0;
+  }
+  let hash = 0x811c9dc5;
+  for (const character of String(seed)) {
+    hash ^= character.codePointAt(0) ?? 0;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function toError(error: unknown) {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+const resolveWaveField = (name: string) => {
+  const field = getWaveField(name);
+  if (field) {
+    return field;
+  }
+  console.warn(`Unknown wave field "${name}", using "${DEFAULT_WAVE_FIELD}"`);
+  return getWaveField(DEFAULT_WAVE_FIELD) as RegisteredWaveField;
+};
+
+const toBaseSeed = (seed: number | null) =>
+  (seed ?? Math.floor(Math.random() * 0xffffffff) >>> 0) || 0x9e3779b1;
+
+// Tweens work on flat number lists.
+const cameraToValues = ({ cameraDistance, cameraTranslation, cameraRotation }: CircleWallpaperCamera) => [
+  cameraDistance,
+  cameraTranslation.x,
+  cameraTranslation.y,
+  cameraTranslation.z,
+  cameraRotation.x,
+  cameraRotation.y,
+  cameraRotation.z,
+];
+
+const valuesToCamera = (values: readonly number[]): CircleWallpaperCamera => ({
+  cameraDistance: values[0],
+  cameraTranslation: { x: values[1], y: values[2], z: values[3] },
+  cameraRotation: { x: values[4], y: values[5], z: values[6] },
+});
+
+const waveToValues = (wave: WaveParams) => WAVE_PARAM_KEYS.map((key) => wave[key]);
+
+const createContextLostError = () => new Error("CircleWallpaper lost its WebGL context");
+const createNoFrameError = () => new Error("CircleWallpaper has no frame to capture");
+
+type CircleWallpaperView = {
+  resize: (width: number, height: number) => void;
+  animate: (timestamp: number) => void;
+  render: () => void;
+  setQuality: (quality: QualityTier) => void;
+  setMotion: (motion: CircleWallpaperMotion) => void;
+  setTime: (seconds: number | null) => void;
+  setPaused: (paused: boolean) => void;
+  setPlaybackRate: (rate: number) => void;
+  setTheme: (theme: CircleWallpaperTheme) => void;
+  setWave: (wave: WaveParams) => void;
+  setWaveField: (name: string) => void;
+  setIntensity: (intensity: CircleWallpaperSceneIntensity | null) => void;
+  setHighlights: (highlights: CircleWallpaperHighlight[]) => void;
+  setEffects: (effects: CircleWallpaperEffect[]) => void;
+  setOptions: (options: CircleWallpaperSceneOptions) => void;
+  setTransition: (transition: CircleWallpaperTransition) => void;
+  setCamera: (camera: CircleWallpaperCamera) => void;
+  setBlur: (blurIntensity: number) => void;
+  getStats: () => Pick<CircleWallpaperStats, "time" | "circles" | "particles">;
+  setInteraction: (interaction: CircleWallpaperInteraction | null) => void;
+  setPointer: (point: CircleWallpaperPoint | null) => void;
+  addRipple: (point: CircleWallpaperPoint) => void;
+  suspend: () => void;
+  setCircleTexture: (texture: THREE.Texture | null) => void;
+  dispose: () => void;
+};
+
+function createCircleWallpaperView(
+  renderer: THREE.WebGLRenderer,
+  options: CircleWallpaperSceneOptions,
+  initialQuality: QualityTier,
+  requestRender: () => void,
+): CircleWallpaperView {
+  let baseInstances: BaseInstanceData[] = [];
+  let quality = initialQuality;
+  let layoutState: LayoutState = {
+    hasData: false,
+    xSpacing: 1,
+    ySpacing: 1,
+    diameter: 1,
+    baseZ: GRID_PLANE_Z,
+    scaleX: 1,
+    scaleY: 1,
+  };
+  const waveParams: WaveParams = { ...DEFAULT_WAVE_PARAMS };
+  const waveTween = createTween(waveToValues(waveParams));
+  const cameraTween = createTween(cameraToValues(options));
+  const blurTween = createTween([options.blurIntensity]);
+  let transition: CircleWallpaperTransition = DEFAULT_TRANSITION;
+  const wavePhases: WavePhases = [0, 0, 0, 0];
+  let waveField = resolveWaveField(DEFAULT_WAVE_FIELD);
+
+  let depthOfField = options.depthOfField;
+  let dofAperture = 0;
+  let dofMaxBlur = 0;
+  let focusFalloffPower = 1;
+  const applyBlurIntensity = (blurIntensity: number) => {
+    dofAperture = blurIntensity === 0 ? 0 : depthOfField.aperture * blurIntensity;
+    dofMaxBlur = blurIntensity === 0 ? 0 : depthOfField.maxBlur * blurIntensity;
+    focusFalloffPower =
+      depthOfField.falloff ??
+      Math.max(1, DOF_FOCUS_FALLOFF_BASE + blurIntensity * DOF_FOCUS_FALLOFF_VARIANCE);
+  };
+  applyBlurIntensity(options.blurIntensity);
+
+  let currentSeed = options.seed;
+  let baseSeed = toBaseSeed(currentSeed);
+  let grid = options.grid;
+  let gridCos = Math.cos(grid.rotation);
+  let gridSin = Math.sin(grid.rotation);
+
+  const scene = new THREE.Scene();
+  const scrollGroup = new THREE.Group();
+  const circlesGroup = new THREE.Group();
+  circlesGroup.rotation.z = grid.rotation;
+  scrollGroup.add(circlesGroup);
+  const particlesGroup = new THREE.Group();
+  particlesGroup.rotation.z = grid.rotation;
+  scrollGroup.add(particlesGroup);
+  scene.add(scrollGroup);
+
+  let composer: EffectComposer | null = null;
+  let depthOfFieldPass: DepthOfFieldPass | null = null;
+  let effectPasses: EffectPasses | null = null;
+  const focusTarget = new THREE.Vector3();
+  const farFocusTarget = new THREE.Vector3();
+
+  const camera = new THREE.PerspectiveCamera(
+    CAMERA_FOV,
+    1,
+    CAMERA_NEAR,
+    CAMERA_FAR,
+  );
+  const applyCamera = ({
+    cameraDistance,
+    cameraTranslation,
+    cameraRotation,
+  }: CircleWallpaperCamera) => {
+    camera.position.set(
+      cameraTranslation.x,
+      cameraTranslation.y,
+      cameraDistance + cameraTranslation.z,
+    );
+    camera.lookAt(0, 0, GRID_PLANE_Z);
+    if (cameraRotation.x !== 0 || cameraRotation.y !== 0 || cameraRotation.z !== 0) {
+      camera.rotation.x += cameraRotation.x;
+      camera.rotation.y += cameraRotation.y;
+      camera.rotation.z += cameraRotation.z;
+    }
+  };
+  applyCamera(options);
+
+  let lastFocusDistance = -1;
+  let lastFocusRange = -1;
+  // Where focus is headed; with a focusSpeed the applied focus eases toward it each frame.
+  let focusGoal = -1;
+  let focusRangeGoal = DOF_MIN_FOCUS_RANGE;
+
+  const applyFocus = (focusDistance: number, focusRange: number) => {
+    const distanceChanged = Math.abs(focusDistance - lastFocusDistance) > 1e-3 || lastFocusDistance < 0;
+    const rangeChanged = Math.abs(focusRange - lastFocusRange) > 1e-3 || lastFocusRange < 0;
+
+    if (distanceChanged) {
+      lastFocusDistance = focusDistance;
+      camera.focus = focusDistance;
+    }
+    if (rangeChanged) {
+      lastFocusRange = focusRange;
+    }
+
+    depthOfFieldPass?.setFocus(lastFocusDistance, lastFocusRange);
+  };
+
+  // Picks the focus for the current mode; crestZ and troughZ bound the wave in view.
+  const updateDepthOfField = (crestZ: number, troughZ: number) => {
+    focusTarget.set(0, 0, crestZ);
+    const crestDistance = Math.max(0.1, camera.position.distanceTo(focusTarget));
+    farFocusTarget.set(0, 0, troughZ);
+    const waveDepth = Math.max(0.1, camera.position.distanceTo(farFocusTarget)) - crestDistance;
+    let focusDistance = crestDistance;
+    if (depthOfField.mode === "fixed") {
+      focusDistance = depthOfField.focusDistance;
+    } else if (depthOfField.mode === "point") {
+      const { x, y, z } = depthOfField.focusPoint;
+      focusDistance = camera.position.distanceTo(focusTarget.set(x, y, z));
+    } else if (depthOfField.mode === "pointer") {
+      focusDistance = pointerFocusDistance() ?? crestDistance;
+    }
+    if (!Number.isFinite(focusDistance)) {
+      return;
+    }
+    focusGoal = Math.max(0.1, focusDistance);
+    focusRangeGoal = Math.max(DOF_MIN_FOCUS_RANGE, depthOfField.focusRange ?? waveDepth);
+    // Without a running loop nothing would ease the focus, so it snaps.
+    if (depthOfField.focusSpeed <= 0 || motionSpeeds.time === 0 || lastFocusDistance < 0) {
+      applyFocus(focusGoal, focusRangeGoal);
+    }
+  };
+
+  const advanceFocus = (deltaSeconds: number) => {
+    if (depthOfField.focusSpeed <= 0 || lastFocusDistance < 0) {
+      return;
+    }
+    const blend = 1 - Math.exp(-depthOfField.focusSpeed * deltaSeconds);
+    applyFocus(
+      lastFocusDistance + (focusGoal - lastFocusDistance) * blend,
+      lastFocusRange + (focusRangeGoal - lastFocusRange) * blend,
+    );
+  };
+
+  const waveExtent = () =>
+    Math.abs(waveParams.amplitude) +
+    Math.abs(waveParams.secondaryAmplitude) +
+    Math.abs(waveParams.rippleAmplitude);
+  const defaultFocusTargetZ = () => GRID_PLANE_Z + waveExtent() + DOF_FOCUS_FRONT_BIAS;
+  const defaultFarTargetZ = () => GRID_PLANE_Z - waveExtent();
+
+  const waveUniforms = {
+    waveTime: { value: 0 },
+    waveScroll: { value: new THREE.Vector2() },
+    waveLength: { value: waveParams.waveLength },
+    waveAmplitudes: { value: new THREE.Vector3() },
+    wavePhases: { value: new THREE.Vector4() },
+    waveSpatial: { value: new THREE.Vector4() },
+    waveDirection: { value: new THREE.Vector2(1, 0) },
+    waveOrigin: { value: new THREE.Vector2() },
+    interactionPointer: { value: new THREE.Vector4() },
+    interactionRipples: {
+      value: Array.from({ length: INTERACTION_RIPPLE_COUNT }, () => new THREE.Vector4()),
+    },
+    highlightCount: { value: 0 },
+    highlightFrames: { value: Array.from({ length: HIGHLIGHT_COUNT }, () => new THREE.Vector4()) },
+    highlightSizes: { value: Array.from({ length: HIGHLIGHT_COUNT }, () => new THREE.Vector4()) },
+    highlightEffects: { value: Array.from({ length: HIGHLIGHT_COUNT }, () => new THREE.Vector2()) },
+  };
+
+  const waveShaderChunk = () => [WAVE_UNIFORMS_GLSL, waveField.glsl, WAVE_FUNCTIONS_GLSL].join("\n");
+
+  const circleGeometry = new THREE.PlaneGeometry(1, 1);
+  const circleMaterial = new THREE.MeshBasicMaterial({
+    color: 0xffffff,
+    transparent: true,
+    depthWrite: false,
+    depthTest: true,
+    toneMapped: false,
+  });
+  circleMaterial.side = THREE.DoubleSide;
+  // The displacement is shared with the depth materials, so blur follows the wave.
+  const patchCircleVertexShader = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+    Object.assign(shader.uniforms, waveUniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        "#include <common>",
+        `#include <common>\nattribute float instanceOpacity;\nvarying float vInstanceOpacity;\n${waveShaderChunk()}`,
+      )
+      .replace("#include <begin_vertex>", `#include <begin_vertex>\n${CIRCLE_VERTEX_GLSL}`);
+  };
+  circleMaterial.onBeforeCompile = (shader) => {
+    patchCircleVertexShader(shader);
+    shader.fragmentShader = shader.fragmentShader
+      .replace("#include <common>", "#include <common>\nvarying float vInstanceOpacity;")
+      .replace("#include <dithering_fragment>", "#include <dithering_fragment>\n\tgl_FragColor.a *= vInstanceOpacity;");
+  };
+  circleMaterial.customProgramCacheKey = () => `circle-wave-${waveField.programKey}`;
+  circleMaterial.needsUpdate = true;
+
+  const particleGeometry = new THREE.PlaneGeometry(1, 1);
+  const buildParticleTexture = (stops: CircleWallpaperGradientStop[]) => {
+    const texture = createParticleTexture(stops);
+    texture.anisotropy = Math.min(4, renderer.capabilities.getMaxAnisotropy());
+    texture.needsUpdate = true;
+    return texture;
+  };
+  let particleGradient = CIRCLE_WALLPAPER_THEMES.light.particleGradient;
+  let particleTexture = buildParticleTexture(particleGradient);
+  // Additive on color only: particles add light without adding coverage, so over a transparent
+  // background they brighten whatever page content shows through instead of hiding it.
+  const particleMaterial = new THREE.MeshBasicMaterial({
+    color: 0x87c7ff,
+    transparent: true,
+    depthWrite: false,
+    depthTest: true,
+    toneMapped: false,
+    blending: THREE.CustomBlending,
+    blendSrc: THREE.SrcAlphaFactor,
+    blendDst: THREE.OneFactor,
+    blendSrcAlpha: THREE.ZeroFactor,
+    blendDstAlpha: THREE.OneFactor,
+  });
+  particleMaterial.side = THREE.DoubleSide;
+  particleMaterial.opacity = 1;
+  particleMaterial.map = particleTexture;
+  const patchParticleVertexShader = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+    Object.assign(shader.uniforms, waveUniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        "#include <common>",
+        [
+          "#include <common>",
+          `#define PARTICLE_PULSE_STRENGTH ${glslFloat(PARTICLE_PULSE_STRENGTH)}`,
+          `#define PARTICLE_SHIMMER_STRENGTH ${glslFloat(PARTICLE_SHIMMER_STRENGTH)}`,
+          "attribute float instanceOpacity;",
+          "attribute vec4 particleFloat;",
+          "attribute vec4 particleDrift;",
+          "attribute vec4 particleSwirl;",
+          "attribute vec2 particleSpin;",
+          "varying float vParticleOpacity;",
+          waveShaderChunk(),
+        ].join("\n"),
+      )
+      .replace("#include <begin_vertex>", `#include <begin_vertex>\n${PARTICLE_VERTEX_GLSL}`);
+  };
+  particleMaterial.onBeforeCompile = (shader) => {
+    patchParticleVertexShader(shader);
+    shader.fragmentShader = shader.fragmentShader
+      .replace("#include <common>", "#include <common>\nvarying float vParticleOpacity;")
+      .replace(
+        "#include <dithering_fragment>",
+        "#include <dithering_fragment>\n\tgl_FragColor.a *= vParticleOpacity;",
+      );
+  };
+  particleMaterial.customProgramCacheKey = () => `particle-wave-${waveField.programKey}`;
+  particleMaterial.needsUpdate = true;
+
+  let instancedCircles: THREE.InstancedMesh<THREE.PlaneGeometry, THREE.Material> | null = null;
+  let instanceOpacityAttribute: THREE.InstancedBufferAttribute | null = null;
+  let instanceCapacity = 0;
+  let instancedParticles: THREE.InstancedMesh<THREE.PlaneGeometry, THREE.Material> | null =
+    null;
+  let particleOpacityAttribute: THREE.InstancedBufferAttribute | null = null;
+  let particleMotionAttributes: {
+    float: THREE.InstancedBufferAttribute;
+    drift: THREE.InstancedBufferAttribute;
+    swirl: THREE.InstancedBufferAttribute;
+    spin: THREE.InstancedBufferAttribute;
+  } | null = null;
+  let particleInstanceCapacity = 0;
+  const randomForCell = (row: number, col: number, variant = 0) => {
+    let seed =
+      ((row * 73856093) ^ (col * 19349663) ^ (variant * 83492791) ^ baseSeed) >>> 0;
+    seed = (seed ^ (seed << 13)) >>> 0;
+    seed = (seed ^ (seed >>> 17)) >>> 0;
+    seed = (seed ^ (seed << 5)) >>> 0;
+    return seed / 4294967296;
+  };
+
+  const ensureInstanceCapacity = (required: number) => {
+    if (required <= 0) {
+      if (instancedCircles) {
+        instancedCircles.count = 0;
+      }
+      return;
+    }
+
+    if (!instancedCircles || required > instanceCapacity) {
+      const nextCapacity = Math.max(required, Math.ceil(Math.max(1, instanceCapacity) * 1.2));
+      if (instancedCircles) {
+        circlesGroup.remove(instancedCircles);
+        instancedCircles.dispose();
+      }
+      instancedCircles = new THREE.InstancedMesh(circleGeometry, circleMaterial, nextCapacity);
+      instancedCircles.frustumCulled = false;
+      instancedCircles.renderOrder = 2;
+      circlesGroup.add(instancedCircles);
+      instanceCapacity = nextCapacity;
+      instanceOpacityAttribute = new THREE.InstancedBufferAttribute(new Float32Array(nextCapacity), 1);
+      instanceOpacityAttribute.setUsage(THREE.DynamicDrawUsage);
+      instancedCircles.geometry.setAttribute("instanceOpacity", instanceOpacityAttribute);
+    }
+
+    if (instancedCircles) {
+      instancedCircles.count = required;
+    }
+  };
+
+  const ensureParticleCapacity = (required: number) => {
+    if (required <= 0) {
+      if (instancedParticles) {
+        instancedParticles.count = 0;
+      }
+      return;
+    }
+
+    if (!instancedParticles || required > particleInstanceCapacity) {
+      const nextCapacity = Math.max(
+        required,
+        Math.ceil(Math.max(1, particleInstanceCapacity) * 1.2),
+      );
+      if (instancedParticles) {
+        particlesGroup.remove(instancedParticles);
+        instancedParticles.dispose();
+      }
+      instancedParticles = new THREE.InstancedMesh(
+        particleGeometry,
+        particleMaterial,
+        nextCapacity,
+      );
+      instancedParticles.frustumCulled = false;
+      instancedParticles.renderOrder = 3;
+      particlesGroup.add(instancedParticles);
+      particleInstanceCapacity = nextCapacity;
+      particleOpacityAttribute = new THREE.InstancedBufferAttribute(
+        new Float32Array(nextCapacity),
+        1,
+      );
+      particleOpacityAttribute.setUsage(THREE.DynamicDrawUsage);
+      instancedParticles.geometry.setAttribute("instanceOpacity", particleOpacityAttribute);
+      particleMotionAttributes = {
+        float: new THREE.InstancedBufferAttribute(new Float32Array(nextCapacity * 4), 4),
+        drift: new THREE.InstancedBufferAttribute(new Float32Array(nextCapacity * 4), 4),
+        swirl: new THREE.InstancedBufferAttribute(new Float32Array(nextCapacity * 4), 4),
+        spin: new THREE.InstancedBufferAttribute(new Float32Array(nextCapacity * 2), 2),
+      };
+      // Motion is only written when the layout rebuilds and animated in the shader, so these
+      // keep the default static usage.
+      for (const [name, attribute] of [
+        ["particleFloat", particleMotionAttributes.float],
+        ["particleDrift", particleMotionAttributes.drift],
+        ["particleSwirl", particleMotionAttributes.swirl],
+        ["particleSpin", particleMotionAttributes.spin],
+      ] as const) {
+        instancedParticles.geometry.setAttribute(name, attribute);
+      }
+    }
+
+    if (instancedParticles) {
+      instancedParticles.count = required;
+    }
+  };
+
+  // The composer hands the screen to whichever pass is last and enabled, so effects can follow
+  // depth of field and low quality tiers can switch it off.
+  composer = new EffectComposer(renderer);
+  const renderPass = new RenderPass(scene, camera);
+  composer.addPass(renderPass);
+  // Depth of field reads the depth these draw, so they run the same displacement as the visible
+  // materials; a scene-wide override material would flatten the wave.
+  const createDepthMaterial = (
+    colorMaterial: THREE.Material,
+    patchVertexShader: (shader: THREE.WebGLProgramParametersWithUniforms) => void,
+  ) => {
+    const material = new THREE.MeshBasicMaterial({ colorWrite: false, side: THREE.DoubleSide });
+    material.onBeforeCompile = patchVertexShader;
+    material.customProgramCacheKey = () => `${colorMaterial.customProgramCacheKey()}-depth`;
+    return material;
+  };
+  const circleDepthMaterial = createDepthMaterial(circleMaterial, patchCircleVertexShader);
+  const particleDepthMaterial = createDepthMaterial(particleMaterial, patchParticleVertexShader);
+  const withDepthMaterials = (render: () => void) => {
+    if (instancedCircles) {
+      instancedCircles.material = circleDepthMaterial;
+    }
+    if (instancedParticles) {
+      instancedParticles.material = particleDepthMaterial;
+    }
+    render();
+    if (instancedCircles) {
+      instancedCircles.material = circleMaterial;
+    }
+    if (instancedParticles) {
+      instancedParticles.material = particleMaterial;
+    }
+  };
+  const renderDepth = (depthRenderer: THREE.WebGLRenderer) => {
+    withDepthMaterials(() => depthRenderer.render(scene, camera));
+  };
+  depthOfFieldPass = createDepthOfFieldPass(renderDepth, camera, {
+    samples: resolveDepthOfFieldSamples(depthOfField.samples),
+    halfResolution: depthOfField.halfResolution,
+  });
+  depthOfFieldPass.setBlur(dofAperture, dofMaxBlur, focusFalloffPower);
+  depthOfFieldPass.enabled = quality.depthOfField;
+  composer.addPass(depthOfFieldPass);
+
+  const tempPosition = new THREE.Vector3();
+  const tempQuaternion = new THREE.Quaternion();
+  const tempScale = new THREE.Vector3();
+  const tempMatrix = new THREE.Matrix4();
+
+  let currentWidth = 0;
+  let currentHeight = 0;
+  let currentViewWidth = 0;
+  let currentViewHeight = 0;
+  // Scrolled distance along the grid axes; recycling absorbs whole columns and rows of it.
+  const scrollOffset = new THREE.Vector2();
+  const waveScroll = new THREE.Vector2();
+  let flow = options.flow;
+  let worldColumnOffset = 0;
+  let worldRowOffset = 0;
+  let layoutBaseOffset = 0;
+  let lastTimestamp: number | null = null;
+  // The clock advances with rendered frames only, so a suspended view resumes where it stopped.
+  let animationTime = 0;
+  let animationStopped = false;
+  let motionSpeeds = MOTION_SPEEDS.full;
+  // A set time holds the clock until it is released with setTime(null).
+  let timeControlled = false;
+  let paused = false;
+  let playbackRate = 1;
+  // Ripples age on their own clock so they keep fading while the wallpaper is paused or scrubbed.
+  let interactionTime = 0;
+  let waveInitialized = false;
+  let currentXSpacing = 1;
+  let currentYSpacing = 1;
+  let intensitySampler: IntensitySampler | null = null;
+  let interaction: CircleWallpaperInteraction | null = null;
+  // The last pointer position is kept so the bulge fades out where the pointer left.
+  let pointerPoint: CircleWallpaperPoint | null = null;
+  let pointerActive = false;
+  let pointerInfluence = 0;
+  // Ripple origins are stored in wave space so they travel with the grid.
+  let ripples: Array<{ x: number; y: number; startTime: number }> = [];
+  let highlights: CircleWallpaperHighlight[] = [];
+  const raycaster = new THREE.Raycaster();
+  const gridPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), -GRID_PLANE_Z);
+  const pointerNdc = new THREE.Vector2();
+  const pointerHit = new THREE.Vector3();
+
+  const layoutCircles = (
+    viewWidth: number,
+    viewHeight: number,
+    columnWorldOffset = 0,
+    rowWorldOffset = 0,
+  ) => {
+    const diameter = resolveCellDiameter(grid.cellSize, viewWidth, viewHeight);
+    const xSpacing = diameter * grid.spacingX * quality.spacingScale;
+    const ySpacing = diameter * grid.spacingY * quality.spacingScale;
+    const radius = diameter * 0.5;
+    const safetyPadding = Math.max(diameter * 0.12, 0.2);
+    currentXSpacing = xSpacing;
+    currentYSpacing = ySpacing;
+    const baseOffset = 0;
+    layoutBaseOffset = baseOffset;
+
+    const halfWidth = viewWidth * 0.5;
+    const halfHeight = viewHeight * 0.5;
+    const corners = [
+      { x: -halfWidth, y: -halfHeight },
+      { x: -halfWidth, y: halfHeight },
+      { x: halfWidth, y: -halfHeight },
+      { x: halfWidth, y: halfHeight },
+    ];
+
+    let minLocalX = Number.POSITIVE_INFINITY;
+    let maxLocalX = Number.NEGATIVE_INFINITY;
+    let minLocalY = Number.POSITIVE_INFINITY;
+    let maxLocalY = Number.NEGATIVE_INFINITY;
+
+    for (const corner of corners) {
+      const localX = corner.x * gridCos + corner.y * gridSin - baseOffset;
+      const localY = -corner.x * gridSin + corner.y * gridCos;
+      if (localX < minLocalX) minLocalX = localX;
+      if (localX > maxLocalX) maxLocalX = localX;
+      if (localY < minLocalY) minLocalY = localY;
+      if (localY > maxLocalY) maxLocalY = localY;
+    }
+
+    // Recycling lets the grid drift up to a column and a pair of rows off this layout; row
+    // lattices already pad one column and one row on each side.
+    const latticePadding = isRowLattice(grid.lattice) ? 1 : 0;
+    const marginX = radius + safetyPadding + xSpacing * (1 - latticePadding);
+    const marginY = radius + safetyPadding + ySpacing * (ROW_RECYCLE_STEP - latticePadding);
+    minLocalX -= marginX;
+    maxLocalX += marginX;
+    minLocalY -= marginY;
+    maxLocalY += marginY;
+
+    const cells = collectLatticeCells(
+      grid,
+      { minX: minLocalX, maxX: maxLocalX, minY: minLocalY, maxY: maxLocalY },
+      xSpacing,
+      ySpacing,
+      columnWorldOffset,
+      rowWorldOffset,
+    );
+    const requiredCount = cells.length;
+
+    if (requiredCount <= 0) {
+      ensureInstanceCapacity(0);
+      baseInstances = [];
+      layoutState = {
+        ...layoutState,
+        hasData: false,
+      };
+      return;
+    }
+
+    ensureInstanceCapacity(requiredCount);
+    if (!instancedCircles || !instanceOpacityAttribute) {
+      return;
+    }
+
+    const opacityArray = instanceOpacityAttribute.array as Float32Array;
+    baseInstances = new Array<BaseInstanceData>(requiredCount);
+    const particleBuffer: ParticleInstanceData[] = [];
+
+    let index = 0;
+    let minX = Number.POSITIVE_INFINITY;
+    let maxX = Number.NEGATIVE_INFINITY;
+    let minY = Number.POSITIVE_INFINITY;
+    let maxY = Number.NEGATIVE_INFINITY;
+    const baseZ = GRID_PLANE_Z;
+
+    tempQuaternion.identity();
+    tempScale.set(diameter, diameter, 1);
+    for (const { x, y, row, column: worldCol } of cells) {
+      tempPosition.set(x, y, baseZ);
+      tempMatrix.compose(tempPosition, tempQuaternion, tempScale);
+      instancedCircles.setMatrixAt(index, tempMatrix);
+
+      const rotatedX = x * gridCos - y * gridSin;
+      const rotatedY = x * gridSin + y * gridCos;
+      if (rotatedX - radius < minX) minX = rotatedX - radius;
+      if (rotatedX + radius > maxX) maxX = rotatedX + radius;
+      if (rotatedY - radius < minY) minY = rotatedY - radius;
+      if (rotatedY + radius > maxY) maxY = rotatedY + radius;
+
+      const intensityRoll = randomForCell(row, worldCol, 0);
+      let opacity = MIN_OPACITY;
+      if (intensityRoll < 0.015) {
+        opacity = 1;
+      } else if (intensityRoll < 0.055) {
+        opacity = HALF_OPACITY;
+      } else {
+        const base = Math.pow(randomForCell(row, worldCol, 1), FALLOFF_POWER);
+        const jitter = 0.82 + randomForCell(row, worldCol, 2) * 0.35;
+        const value = MIN_OPACITY + (HALF_OPACITY - MIN_OPACITY) * base * jitter;
+        opacity = Math.min(HALF_OPACITY - 0.05, Math.max(MIN_OPACITY, value));
+      }
+      // Data is sampled at the cell's unscrolled grid position, so it drifts with the circles.
+      const dataOpacity = intensitySampler?.sample(
+        x / xSpacing + columnWorldOffset,
+        y / ySpacing + rowWorldOffset,
+        row,
+        worldCol,
+      );
+      if (intensitySampler && dataOpacity !== null && dataOpacity !== undefined) {
+        opacity += (dataOpacity - opacity) * intensitySampler.strength;
+      }
+      opacityArray[index] = opacity;
+      baseInstances[index] = {
+        baseX: x,
+        baseY: y,
+        row,
+        worldColumn: worldCol,
+        baseOpacity: opacity,
+      };
+
+      const particleRoll = randomForCell(row, worldCol, 6);
+      if (particleRoll < PARTICLE_SPAWN_CHANCE * quality.particleDensity) {
+        const offsetX =
+          (randomForCell(row, worldCol, 7) - 0.5) * xSpacing * PARTICLE_OFFSET_X_RATIO;
+        const offsetY =
+          (randomForCell(row, worldCol, 8) - 0.5) * ySpacing * PARTICLE_OFFSET_Y_RATIO;
+        const sizeRand = randomForCell(row, worldCol, 9);
+        const particleSize =
+          diameter *
+          (PARTICLE_SIZE_MIN_RATIO +
+            (PARTICLE_SIZE_MAX_RATIO - PARTICLE_SIZE_MIN_RATIO) * sizeRand);
+        const floatRangeRand = randomForCell(row, worldCol, 10);
+        const floatAmplitude =
+          ySpacing *
+          (PARTICLE_FLOAT_AMPLITUDE_MIN_RATIO +
+            (PARTICLE_FLOAT_AMPLITUDE_MAX_RATIO - PARTICLE_FLOAT_AMPLITUDE_MIN_RATIO) *
+              floatRangeRand);
+        const floatSpeed = periodicSpeed(
+          PARTICLE_FLOAT_SPEED_MIN +
+            randomForCell(row, worldCol, 11) *
+              (PARTICLE_FLOAT_SPEED_MAX - PARTICLE_FLOAT_SPEED_MIN),
+        );
+        const floatPhase = randomForCell(row, worldCol, 12) * Math.PI * 2;
+        // The shimmer runs at half this speed, so it is rounded to even cycles.
+        const pulseSpeed = periodicSpeed(
+          PARTICLE_PULSE_SPEED_MIN +
+            randomForCell(row, worldCol, 13) *
+              (PARTICLE_PULSE_SPEED_MAX - PARTICLE_PULSE_SPEED_MIN),
+          2,
+        );
+        const pulseOffset = randomForCell(row, worldCol, 14) * Math.PI * 2;
+        const waveStrength = 0.55 + randomForCell(row, worldCol, 15) * 0.6;
+        const depthOffset =
+          (randomForCell(row, worldCol, 16) - 0.5) *
+          diameter *
+          PARTICLE_DEPTH_OFFSET_RATIO;
+        const baseOpacity = Math.min(1, 0.5 + randomForCell(row, worldCol, 17) * 0.45);
+        const driftMagnitude =
+          xSpacing *
+          PARTICLE_DRIFT_X_RATIO *
+          (0.6 + randomForCell(row, worldCol, 18) * 0.8);
+        const driftDirection = randomForCell(row, worldCol, 19) < 0.5 ? -1 : 1;
+        const driftAmplitude = driftMagnitude;
+        const driftSpeed = periodicSpeed(
+          PARTICLE_DRIFT_SPEED_MIN +
+            randomForCell(row, worldCol, 20) *
+              (PARTICLE_DRIFT_SPEED_MAX - PARTICLE_DRIFT_SPEED_MIN),
+        );
+        const driftPhase = randomForCell(row, worldCol, 21) * Math.PI * 2;
+        const swirlMagnitude =
+          diameter *
+          PARTICLE_SWIRL_Z_RATIO *
+          (0.6 + randomForCell(row, worldCol, 22) * 0.9);
+        const swirlDirection = randomForCell(row, worldCol, 23) < 0.5 ? -1 : 1;
+        const swirlSpeed = periodicSpeed(
+          PARTICLE_SWIRL_SPEED_MIN +
+            randomForCell(row, worldCol, 24) *
+              (PARTICLE_SWIRL_SPEED_MAX - PARTICLE_SWIRL_SPEED_MIN),
+        );
+        const swirlPhase = randomForCell(row, worldCol, 25) * Math.PI * 2;
+        const spinMagnitude = periodicSpeed(
+          PARTICLE_SPIN_SPEED_MIN +
+            randomForCell(row, worldCol, 26) *
+              (PARTICLE_SPIN_SPEED_MAX - PARTICLE_SPIN_SPEED_MIN),
+        );
+        const spinSpeed =
+          spinMagnitude * (randomForCell(row, worldCol, 27) < 0.5 ? -1 : 1);
+        const spinPhase = randomForCell(row, worldCol, 28) * Math.PI * 2;
+        const baseXWithOffset = x + offsetX;
+        const baseYWithOffset = y + offsetY;
+        particleBuffer.push({
+          baseX: baseXWithOffset,
+          baseY: baseYWithOffset,
+          size: particleSize,
+          floatAmplitude,
+          floatSpeed,
+          floatPhase,
+          pulseSpeed,
+          pulseOffset,
+          waveStrength,
+          depthOffset,
+          baseOpacity,
+          driftAmplitude,
+          driftSpeed,
+          driftPhase,
+          driftDirection,
+          swirlAmplitude: swirlMagnitude,
+          swirlSpeed,
+          swirlPhase,
+          swirlDirection,
+          spinSpeed,
+          spinPhase,
+        });
+      }
+
+      index += 1;
+    }
+
+    instancedCircles.count = requiredCount;
+    instancedCircles.instanceMatrix.needsUpdate = true;
+    instanceOpacityAttribute.needsUpdate = true;
+
+    ensureParticleCapacity(particleBuffer.length);
+    if (
+      instancedParticles &&
+      particleOpacityAttribute &&
+      particleMotionAttributes &&
+      particleBuffer.length > 0
+    ) {
+      const particleOpacityArray = particleOpacityAttribute.array as Float32Array;
+      const { float, drift, swirl, spin } = particleMotionAttributes;
+      tempQuaternion.identity();
+      for (let i = 0; i < particleBuffer.length; i += 1) {
+        const data = particleBuffer[i];
+        particleOpacityArray[i] = data.baseOpacity;
+        float.setXYZW(i, data.floatAmplitude, data.floatSpeed, data.floatPhase, data.waveStrength);
+        drift.setXYZW(
+          i,
+          data.driftAmplitude * data.driftDirection,
+          data.driftSpeed,
+          data.driftPhase,
+          data.pulseSpeed,
+        );
+        swirl.setXYZW(
+          i,
+          data.swirlAmplitude * data.swirlDirection,
+          data.swirlSpeed,
+          data.swirlPhase,
+          data.pulseOffset,
+        );
+        spin.setXY(i, data.spinSpeed, data.spinPhase);
+        tempScale.set(data.size, data.size, 1);
+        tempPosition.set(data.baseX, data.baseY, baseZ + data.depthOffset);
+        tempMatrix.compose(tempPosition, tempQuaternion, tempScale);
+        instancedParticles.setMatrixAt(i, tempMatrix);
+      }
+      instancedParticles.instanceMatrix.needsUpdate = true;
+      particleOpacityAttribute.needsUpdate = true;
+      float.needsUpdate = true;
+      drift.needsUpdate = true;
+      swirl.needsUpdate = true;
+      spin.needsUpdate = true;
+    } else if (particleOpacityAttribute) {
+      particleOpacityAttribute.needsUpdate = true;
+    }
+
+    // Row lattices repeat across the view and are centered on their bounds; point lattices keep
+    // their origin fixed, since their bounds shift whenever columns are recycled.
+    const centered = isRowLattice(grid.lattice);
+    const centerX = centered ? (minX + maxX) * 0.5 : 0;
+    const centerY = centered ? (minY + maxY) * 0.5 : 0;
+    const offsetX = -baseOffset * gridCos;
+    const offsetY = -baseOffset * gridSin;
+    circlesGroup.position.set(-centerX + offsetX, -centerY + offsetY, 0);
+    particlesGroup.position.copy(circlesGroup.position);
+    layoutState = {
+      hasData: true,
+      xSpacing,
+      ySpacing,
+      diameter,
+      baseZ,
+      scaleX: diameter,
+      scaleY: diameter,
+    };
+  };
+
+  const clearColor = new THREE.Color(0xffffff);
+  let clearAlpha = 1;
+
+  const renderScene = () => {
+    if (animationStopped) {
+      return;
+    }
+    applyHighlights();
+    renderer.setClearColor(clearColor, clearAlpha);
+    if (composer) {
+      composer.render();
+    } else {
+      renderer.render(scene, camera);
+    }
+  };
+
+  // The scroll that recycling has not absorbed yet, i.e. how far the grid sits off its layout.
+  const updateWaveScroll = () => {
+    waveScroll.set(
+      scrollOffset.x - worldColumnOffset * layoutState.xSpacing,
+      scrollOffset.y - worldRowOffset * layoutState.ySpacing,
+    );
+  };
+
+  const applyWaveAnimation = (timeSeconds: number) => {
+    if (!layoutState.hasData) {
+      return;
+    }
+    const { xSpacing, baseZ } = layoutState;
+    const { amplitude, secondaryAmplitude, rippleAmplitude, waveLength, direction } = waveParams;
+    const { sample } = waveField;
+    if (xSpacing === 0 || waveLength === 0) {
+      return;
+    }
+
+    updateWaveScroll();
+    const waveTime = timeSeconds % WAVE_TIME_PERIOD;
+    waveUniforms.waveTime.value = waveTime;
+    waveUniforms.waveScroll.value.copy(waveScroll);
+    waveUniforms.waveLength.value = waveLength;
+    waveUniforms.waveAmplitudes.value.set(amplitude, secondaryAmplitude, rippleAmplitude);
+    waveUniforms.wavePhases.value.fromArray(wavePhases);
+    waveUniforms.waveDirection.value.set(Math.cos(direction), Math.sin(direction));
+    waveUniforms.waveOrigin.value.set(waveParams.originX, waveParams.originZ);
+    waveUniforms.waveSpatial.value.set(
+      waveParams.rippleFrequencyX,
+      waveParams.rippleFrequencyZ,
+      waveParams.pulseSpatialX,
+      waveParams.pulseSpatialZ,
+    );
+
+    // The shaders displace every instance; depth of field only needs the crest and trough,
+    // so sample a strided subset of circles instead of walking the whole grid.
+    const count = instancedCircles ? Math.min(instancedCircles.count, baseInstances.length) : 0;
+    if (count <= 0) {
+      return;
+    }
+    // Only the crest mode and the automatic focus range need the sampled wave.
+    if (!sample || (depthOfField.mode !== "crest" && depthOfField.focusRange !== null)) {
+      updateDepthOfField(defaultFocusTargetZ(), defaultFarTargetZ());
+      return;
+    }
+    const stride = Math.max(1, Math.ceil(count / WAVE_CREST_SAMPLE_LIMIT));
+    let crestZ = Number.NEGATIVE_INFINITY;
+    let troughZ = Number.POSITIVE_INFINITY;
+    for (let index = 0; index < count; index += stride) {
+      const data = baseInstances[index];
+      if (!data) {
+        continue;
+      }
+      const circleZ =
+        baseZ +
+        sampleWaveHeight(
+          data.baseX - waveScroll.x,
+          data.baseY - waveScroll.y,
+          sample,
+          wavePhases,
+          waveParams,
+          waveTime,
+        );
+      if (circleZ > crestZ) {
+        crestZ = circleZ;
+      }
+      if (circleZ < troughZ) {
+        troughZ = circleZ;
+      }
+    }
+
+    if (crestZ !== Number.NEGATIVE_INFINITY) {
+      const farZ = troughZ !== Number.POSITIVE_INFINITY ? troughZ : crestZ;
+      updateDepthOfField(crestZ + DOF_FOCUS_FRONT_BIAS, farZ);
+    }
+  };
+
+  // Raycasts a point on the wallpaper onto the grid plane and returns it in wave space,
+  // the frame the shaders evaluate the wave field in.
+  const projectToWave = (point: CircleWallpaperPoint) => {
+    pointerNdc.set(point.x * 2 - 1, 1 - point.y * 2);
+    camera.updateMatrixWorld();
+    raycaster.setFromCamera(pointerNdc, camera);
+    if (!raycaster.ray.intersectPlane(gridPlane, pointerHit)) {
+      return null;
+    }
+    const deltaX = pointerHit.x - scrollGroup.position.x - circlesGroup.position.x;
+    const deltaY = pointerHit.y - scrollGroup.position.y - circlesGroup.position.y;
+    updateWaveScroll();
+    return {
+      x: deltaX * gridCos + deltaY * gridSin - waveScroll.x,
+      y: -deltaX * gridSin + deltaY * gridCos - waveScroll.y,
+    };
+  };
+
+  // Distance to where the pointer meets the wave: its grid plane hit, raised to the wave height
+  // there. Null until the pointer has been over the wallpaper.
+  const pointerFocusDistance = () => {
+    const wavePoint = pointerPoint ? projectToWave(pointerPoint) : null;
+    if (!wavePoint) {
+      return null;
+    }
+    const { sample } = waveField;
+    const height = sample
+      ? sampleWaveHeight(
+          wavePoint.x,
+          wavePoint.y,
+          sample,
+          wavePhases,
+          waveParams,
+          animationTime % WAVE_TIME_PERIOD,
+        )
+      : 0;
+    focusTarget.set(pointerHit.x, pointerHit.y, layoutState.baseZ + height);
+    return camera.position.distanceTo(focusTarget);
+  };
+
+  const applyInteraction = (deltaSeconds: number) => {
+    const pointerUniform = waveUniforms.interactionPointer.value;
+    const rippleUniforms = waveUniforms.interactionRipples.value;
+    if (!interaction || !layoutState.hasData) {
+      pointerUniform.set(0, 0, 0, 1);
+      for (const ripple of rippleUniforms) {
+        ripple.set(0, 0, 0, 0);
+      }
+      return;
+    }
+
+    const { strength, radius, decay } = interaction;
+    const { diameter } = layoutState;
+    const targetInfluence = pointerActive ? 1 : 0;
+    const rate = targetInfluence > pointerInfluence ? INTERACTION_FOLLOW_RATE : decay;
+    pointerInfluence += (targetInfluence - pointerInfluence) * (1 - Math.exp(-rate * deltaSeconds));
+    const pointerWave = pointerPoint ? projectToWave(pointerPoint) : null;
+    if (pointerWave) {
+      pointerUniform.set(
+        pointerWave.x,
+        pointerWave.y,
+        strength * diameter * pointerInfluence,
+        radius * diameter,
+      );
+    } else {
+      pointerUniform.set(0, 0, 0, radius * diameter);
+    }
+
+    ripples = ripples.filter(
+      (ripple) =>
+        Math.exp(-decay * (interactionTime - ripple.startTime)) >= INTERACTION_MIN_AMPLITUDE,
+    );
+    rippleUniforms.forEach((uniform, index) => {
+      const ripple = ripples[index];
+      if (!ripple) {
+        uniform.set(0, 0, 0, 0);
+        return;
+      }
+      const age = interactionTime - ripple.startTime;
+      uniform.set(
+        ripple.x,
+        ripple.y,
+        age * INTERACTION_RIPPLE_SPEED * diameter,
+        strength * diameter * Math.exp(-decay * age),
+      );
+    });
+  };
+
+  // Regions are fixed on screen while the grid drifts and the camera moves under them, so they
+  // are projected again right before every frame.
+  const applyHighlights = () => {
+    let count = 0;
+    if (layoutState.hasData) {
+      for (const highlight of highlights.slice(0, HIGHLIGHT_COUNT)) {
+        const centerY = highlight.y + highlight.height / 2;
+        const centerX = highlight.x + highlight.width / 2;
+        const left = projectToWave({ x: highlight.x, y: centerY });
+        const right = projectToWave({ x: highlight.x + highlight.width, y: centerY });
+        const top = projectToWave({ x: centerX, y: highlight.y });
+        const bottom = projectToWave({ x: centerX, y: highlight.y + highlight.height });
+        if (!left || !right || !top || !bottom) {
+          continue;
+        }
+        // Perspective turns the rect into a quad; it is approximated by the rectangle through
+        // its edge midpoints.
+        const axisX = right.x - left.x;
+        const axisY = right.y - left.y;
+        const width = Math.hypot(axisX, axisY);
+        const unitX = width > 0 ? axisX / width : 1;
+        const unitY = width > 0 ? axisY / width : 0;
+        const height = Math.abs(-unitY * (bottom.x - top.x) + unitX * (bottom.y - top.y));
+        waveUniforms.highlightFrames.value[count].set(
+          (left.x + right.x + top.x + bottom.x) / 4,
+          (left.y + right.y + top.y + bottom.y) / 4,
+          unitX,
+          unitY,
+        );
+        waveUniforms.highlightSizes.value[count].set(
+          width / 2,
+          height / 2,
+          highlight.falloff * currentViewHeight,
+          highlight.outsideOpacity,
+        );
+        waveUniforms.highlightEffects.value[count].set(highlight.opacity, highlight.wave);
+        count += 1;
+      }
+    }
+    waveUniforms.highlightCount.value = count;
+  };
+
+  const resize = (width: number, height: number) => {
+    if (width === 0 || height === 0) {
+      return;
+    }
+
+    if (composer) {
+      composer.setPixelRatio(renderer.getPixelRatio());
+      composer.setSize(width, height);
+    }
+
+    camera.aspect = width / height;
+    camera.updateProjectionMatrix();
+
+    currentWidth = width;
+    currentHeight = height;
+    lastTimestamp = null;
+    relayout();
+    requestRender();
+  };
+
+  // Lays the grid out to cover the view at the grid plane, which depends on the camera height.
+  const relayout = () => {
+    updateDepthOfField(defaultFocusTargetZ(), defaultFarTargetZ());
+    const distanceToPlane = Math.max(camera.position.z - GRID_PLANE_Z, 0.01);
+    const verticalFov = THREE.MathUtils.degToRad(camera.fov);
+    currentViewHeight = 2 * Math.tan(verticalFov / 2) * distanceToPlane;
+    currentViewWidth = currentViewHeight * camera.aspect;
+    layoutBaseOffset = 0;
+    worldColumnOffset = 0;
+    worldRowOffset = 0;
+    layoutCircles(currentViewWidth, currentViewHeight, worldColumnOffset, worldRowOffset);
+    // The scroll survives relayouts so a given clock time always shows the same frame.
+    syncScroll();
+    applyWaveAnimation(animationTime);
+    applyInteraction(0);
+  };
+
+  // Recycles columns and rows as the grid scrolls in any direction and moves the scroll group.
+  const syncScroll = () => {
+    const spacing = currentXSpacing > 0 ? currentXSpacing : 1;
+    const rowSpacing = currentYSpacing > 0 ? currentYSpacing : 1;
+    const rowStep = rowSpacing * ROW_RECYCLE_STEP;
+    let offsetDelta = scrollOffset.x - worldColumnOffset * spacing - layoutBaseOffset;
+    let rowOffsetDelta = scrollOffset.y - worldRowOffset * rowSpacing;
+    if (Math.abs(offsetDelta) >= spacing || Math.abs(rowOffsetDelta) >= rowStep) {
+      worldColumnOffset += Math.trunc(offsetDelta / spacing);
+      worldRowOffset += Math.trunc(rowOffsetDelta / rowStep) * ROW_RECYCLE_STEP;
+      layoutCircles(currentViewWidth, currentViewHeight, worldColumnOffset, worldRowOffset);
+      offsetDelta = scrollOffset.x - worldColumnOffset * spacing - layoutBaseOffset;
+      rowOffsetDelta = scrollOffset.y - worldRowOffset * rowSpacing;
+    }
+    scrollGroup.position.set(
+      -offsetDelta * gridCos + rowOffsetDelta * gridSin,
+      -offsetDelta * gridSin - rowOffsetDelta * gridCos,
+      0,
+    );
+  };
+
+  // Particle motion (through waveTime), the wave phases and the drift all follow this
+  // one clock, so setting or scaling it moves them together.
+  const advanceClock = (clockDelta: number) => {
+    animationTime += clockDelta;
+    const phaseSpeeds = [
+      waveParams.speed,
+      waveParams.speed * waveParams.secondaryFrequency,
+      waveParams.rippleSpeed,
+      waveParams.pulseSpeed,
+    ];
+    phaseSpeeds.forEach((speed, index) => {
+      wavePhases[index] = (wavePhases[index] + clockDelta * speed) % (Math.PI * 2);
+    });
+    // Reduced motion keeps the grid in place; a stopped clock that is set scrolls like full motion.
+    const scrollRate = motionSpeeds.time > 0 ? motionSpeeds.scroll / motionSpeeds.time : 1;
+    scrollOffset.x += clockDelta * flow.x * scrollRate;
+    scrollOffset.y += clockDelta * flow.y * scrollRate;
+  };
+
+  // A frozen view has no loop to advance tweens, so its changes apply at once.
+  const liveTransition = () => (motionSpeeds.time === 0 ? null : transition);
+
+  const showWave = () => {
+    WAVE_PARAM_KEYS.forEach((key, index) => {
+      waveParams[key] = waveTween.values[index];
+    });
+  };
+
+  const showBlur = () => {
+    applyBlurIntensity(blurTween.values[0]);
+    depthOfFieldPass?.setBlur(dofAperture, dofMaxBlur, focusFalloffPower);
+  };
+
+  const showCamera = () => {
+    const previousZ = camera.position.z;
+    applyCamera(valuesToCamera(cameraTween.values));
+    if (currentWidth <= 0 || currentHeight <= 0) {
+      return;
+    }
+    if (camera.position.z !== previousZ) {
+      relayout();
+    } else {
+      applyWaveAnimation(animationTime);
+    }
+  };
+
+  // Transitions run on wall-clock time so they settle even in reduced motion or while paused.
+  const advanceTransitions = (deltaSeconds: number) => {
+    const deltaMs = deltaSeconds * 1000;
+    if (waveTween.advance(deltaMs)) {
+      showWave();
+    }
+    if (blurTween.advance(deltaMs)) {
+      showBlur();
+    }
+    if (cameraTween.advance(deltaMs)) {
+      showCamera();
+    }
+  };
+
+  const hasViewSize = () =>
+    currentWidth > 0 && currentHeight > 0 && currentViewWidth > 0 && currentViewHeight > 0;
+
+  const animate = (timestamp: number) => {
+    if (animationStopped) {
+      return;
+    }
+    if (lastTimestamp === null) {
+      lastTimestamp = timestamp;
+      applyWaveAnimation(animationTime);
+      return;
+    }
+    const deltaSeconds = (timestamp - lastTimestamp) / 1000;
+    lastTimestamp = timestamp;
+    if (deltaSeconds <= 0) {
+      return;
+    }
+    const motionDelta = deltaSeconds * motionSpeeds.time;
+    if (!timeControlled && !paused) {
+      advanceClock(motionDelta * playbackRate);
+    }
+    interactionTime += motionDelta;
+    advanceTransitions(deltaSeconds);
+
+    if (!hasViewSize()) {
+      return;
+    }
+    syncScroll();
+    applyWaveAnimation(animationTime);
+    advanceFocus(deltaSeconds);
+    applyInteraction(motionDelta);
+  };
+
+  const setTime = (seconds: number | null) => {
+    timeControlled = seconds !== null;
+    if (seconds === null || seconds === animationTime) {
+      return;
+    }
+    advanceClock(seconds - animationTime);
+    if (!hasViewSize()) {
+      return;
+    }
+    syncScroll();
+    applyWaveAnimation(animationTime);
+    requestRender();
+  };
+
+  const setPaused = (nextPaused: boolean) => {
+    paused = nextPaused;
+  };
+
+  const setPlaybackRate = (rate: number) => {
+    playbackRate = rate;
+  };
+
+  const setQuality = (nextQuality: QualityTier) => {
+    const layoutChanged =
+      nextQuality.particleDensity !== quality.particleDensity ||
+      nextQuality.spacingScale !== quality.spacingScale;
+    quality = nextQuality;
+    if (depthOfFieldPass) {
+      depthOfFieldPass.enabled = quality.depthOfField;
+    }
+    if (currentWidth <= 0 || currentHeight <= 0) {
+      return;
+    }
+    if (layoutChanged) {
+      resize(currentWidth, currentHeight);
+    } else if (composer) {
+      composer.setPixelRatio(renderer.getPixelRatio());
+      composer.setSize(currentWidth, currentHeight);
+    }
+  };
+
+  const setMotion = (motion: CircleWallpaperMotion) => {
+    motionSpeeds = MOTION_SPEEDS[motion];
+  };
+
+  const setTheme = (theme: CircleWallpaperTheme) => {
+    if (theme.background === "transparent") {
+      clearAlpha = 0;
+    } else {
+      clearColor.set(theme.background);
+      clearAlpha = 1;
+    }
+    circleMaterial.color.set(theme.circleTint);
+    particleMaterial.color.set(theme.particleColor);
+    if (JSON.stringify(theme.particleGradient) !== JSON.stringify(particleGradient)) {
+      particleGradient = theme.particleGradient;
+      particleTexture.dispose();
+      particleTexture = buildParticleTexture(particleGradient);
+      particleMaterial.map = particleTexture;
+    }
+    if (currentWidth > 0 && currentHeight > 0) {
+      requestRender();
+    }
+  };
+
+  const setWave = (nextWave: WaveParams) => {
+    // The first wave replaces the defaults the view was built with instead of easing from them.
+    waveTween.set(waveToValues(nextWave), waveInitialized ? liveTransition() : null);
+    waveInitialized = true;
+    showWave();
+    applyWaveAnimation(animationTime);
+    if (currentWidth > 0 && currentHeight > 0) {
+      requestRender();
+    }
+  };
+
+  const setTransition = (nextTransition: CircleWallpaperTransition) => {
+    transition = nextTransition;
+  };
+
+  const setWaveField = (name: string) => {
+    const nextField = resolveWaveField(name);
+    if (nextField === waveField) {
+      return;
+    }
+    waveField = nextField;
+    circleMaterial.needsUpdate = true;
+    particleMaterial.needsUpdate = true;
+    circleDepthMaterial.needsUpdate = true;
+    particleDepthMaterial.needsUpdate = true;
+    applyWaveAnimation(animationTime);
+    if (currentWidth > 0 && currentHeight > 0) {
+      requestRender();
+    }
+  };
+
+  const setIntensity = (intensity: CircleWallpaperSceneIntensity | null) => {
+    if (!intensity && !intensitySampler) {
+      return;
+    }
+    intensitySampler = intensity ? createIntensitySampler(intensity, MIN_OPACITY) : null;
+    if (currentWidth > 0 && currentHeight > 0) {
+      relayout();
+      requestRender();
+    }
+  };
+
+  const setHighlights = (nextHighlights: CircleWallpaperHighlight[]) => {
+    if (nextHighlights.length === 0 && highlights.length === 0) {
+      return;
+    }
+    highlights = nextHighlights;
+    if (currentWidth > 0 && currentHeight > 0) {
+      requestRender();
+    }
+  };
+
+  // The composer sizes passes as they are added and on every resize, pixel ratio included.
+  const setEffects = (effects: CircleWallpaperEffect[]) => {
+    if (!composer || (effects.length === 0 && !effectPasses)) {
+      return;
+    }
+    if (effectPasses) {
+      for (const pass of effectPasses.passes) {
+        composer.removePass(pass);
+      }
+      effectPasses.dispose();
+      effectPasses = null;
+    }
+    if (effects.length > 0) {
+      effectPasses = createEffectPasses(effects, () => {
+        if (currentWidth > 0 && currentHeight > 0) {
+          requestRender();
+        }
+      });
+      for (const pass of effectPasses.passes) {
+        composer.addPass(pass);
+      }
+    }
+    if (currentWidth > 0 && currentHeight > 0) {
+      requestRender();
+    }
+  };
+
+  const setInteraction = (nextInteraction: CircleWallpaperInteraction | null) => {
+    interaction = nextInteraction;
+    if (!interaction) {
+      ripples = [];
+      pointerInfluence = 0;
+    }
+    applyInteraction(0);
+  };
+
+  const setPointer = (point: CircleWallpaperPoint | null) => {
+    pointerActive = point !== null;
+    if (point) {
+      pointerPoint = point;
+    }
+  };
+
+  const addRipple = (point: CircleWallpaperPoint) => {
+    if (!interaction) {
+      return;
+    }
+    const origin = projectToWave(point);
+    if (!origin) {
+      return;
+    }
+    ripples.push({ ...origin, startTime: interactionTime });
+    if (ripples.length > INTERACTION_RIPPLE_COUNT) {
+      ripples.shift();
+    }
+  };
+
+  // Direct camera and blur changes skip the transition; they are meant to be called per frame.
+  const setCamera = (nextCamera: CircleWallpaperCamera) => {
+    cameraTween.set(cameraToValues(nextCamera), null);
+    showCamera();
+    if (currentWidth > 0 && currentHeight > 0) {
+      requestRender();
+    }
+  };
+
+  const setBlur = (blurIntensity: number) => {
+    blurTween.set([blurIntensity], null);
+    showBlur();
+    if (currentWidth > 0 && currentHeight > 0) {
+      requestRender();
+    }
+  };
+
+  // Every option applies in place, so changing one never tears down GPU resources or resets
+  // the clock and scroll. Camera and blur ease over the current transition.
+  const setOptions = (nextOptions: CircleWallpaperSceneOptions) => {
+    depthOfField = nextOptions.depthOfField;
+    depthOfFieldPass?.setSettings({
+      samples: resolveDepthOfFieldSamples(depthOfField.samples),
+      halfResolution: depthOfField.halfResolution,
+    });
+    cameraTween.set(cameraToValues(nextOptions), liveTransition());
+    blurTween.set([nextOptions.blurIntensity], liveTransition());
+    showBlur();
+    showCamera();
+    flow = nextOptions.flow;
+    const seedChanged = nextOptions.seed !== currentSeed;
+    const gridChanged = JSON.stringify(nextOptions.grid) !== JSON.stringify(grid);
+    if (seedChanged) {
+      currentSeed = nextOptions.seed;
+      baseSeed = toBaseSeed(currentSeed);
+    }
+    if (gridChanged) {
+      grid = nextOptions.grid;
+      gridCos = Math.cos(grid.rotation);
+      gridSin = Math.sin(grid.rotation);
+      circlesGroup.rotation.z = grid.rotation;
+      particlesGroup.rotation.z = grid.rotation;
+    }
+    if ((seedChanged || gridChanged) && currentWidth > 0 && currentHeight > 0) {
+      relayout();
+    }
+    if (currentWidth > 0 && currentHeight > 0) {
+      requestRender();
+    }
+  };
+
+  const getStats = () => ({
+    time: animationTime,
+    circles: instancedCircles?.count ?? 0,
+    particles: instancedParticles?.count ?? 0,
+  });
+
+  const suspend = () => {
+    lastTimestamp = null;
+  };
+
+  const setCircleTexture = (texture: THREE.Texture | null) => {
+    circleMaterial.map = texture;
+    circleMaterial.opacity = 1;
+    circleMaterial.needsUpdate = true;
+    if (currentWidth > 0 && currentHeight > 0) {
+      requestRender();
+    }
+  };
+
+  const dispose = () => {
+    animationStopped = true;
+    if (composer) {
+      composer.dispose();
+    }
+    composer = null;
+    depthOfFieldPass?.dispose();
+    depthOfFieldPass = null;
+    effectPasses?.dispose();
+    effectPasses = null;
+    if (instancedCircles) {
+      circlesGroup.remove(instancedCircles);
+      instancedCircles.dispose();
+    }
+    instancedCircles = null;
+    instanceOpacityAttribute = null;
+    instanceCapacity = 0;
+    if (instancedParticles) {
+      particlesGroup.remove(instancedParticles);
+      instancedParticles.dispose();
+    }
+    instancedParticles = null;
+    particleOpacityAttribute = null;
+    particleMotionAttributes = null;
+    particleInstanceCapacity = 0;
+    baseInstances = [];
+    circleGeometry.dispose();
+    circleMaterial.dispose();
+    circleDepthMaterial.dispose();
+    particleGeometry.dispose();
+    particleMaterial.dispose();
+    particleDepthMaterial.dispose();
+    particleTexture.dispose();
+  };
+
+  return {
+    resize,
+    animate,
+    render: renderScene,
+    setQuality,
+    setMotion,
+    setTime,
+    setPaused,
+    setPlaybackRate,
+    setTheme,
+    setWave,
+    setWaveField,
+    setIntensity,
+    setHighlights,
+    setEffects,
+    setOptions,
+    setTransition,
+    setCamera,
+    setBlur,
+    getStats,
+    setInteraction,
+    setPointer,
+    addRipple,
+    suspend,
+    setCircleTexture,
+    dispose,
+  };
+}
+
+function createCircleTexture(renderer: THREE.WebGLRenderer, image: HTMLImageElement | ImageBitmap) {
+  const texture = new THREE.Texture(image);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.generateMipmaps = true;
+  texture.anisotropy = Math.min(4, renderer.capabilities.getMaxAnisotropy());
+  // WebGL ignores UNPACK_FLIP_Y for ImageBitmaps; those arrive already flipped.
+  texture.flipY = !(typeof ImageBitmap !== "undefined" && image instanceof ImageBitmap);
+  texture.needsUpdate = true;
+  return texture;
+}
+
+export function loadCircleImage(url: string, onLoad: (image: HTMLImageElement) => void) {
+  new THREE.ImageLoader().load(url, onLoad, undefined, () => {
+    console.warn(`Failed to load circle texture ${url}`);
+  });
+}
+
+export function createCircleWallpaperRenderer(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  options: CircleWallpaperSceneOptions,
+  viewport: CircleWallpaperViewport,
+  settings: CircleWallpaperRendererSettings,
+): CircleWallpaperRenderer {
+  // Views clear with their theme background, which may be transparent.
+  const renderer = new THREE.WebGLRenderer({
+    canvas,
+    antialias: false,
+    alpha: true,
+    premultipliedAlpha: true,
+    powerPreference: "high-performance",
+  });
+  renderer.outputColorSpace = THREE.SRGBColorSpace;
+
+  let currentViewport = viewport;
+  let currentOptions = options;
+  let transition = DEFAULT_TRANSITION;
+  let theme = CIRCLE_WALLPAPER_THEMES.light;
+  let circleImage: HTMLImageElement | ImageBitmap | null = null;
+  let circleTexture: THREE.Texture | null = null;
+  let visible = true;
+  let motion: CircleWallpaperMotion = "full";
+  let time: number | null = null;
+  let paused = false;
+  let playbackRate = 1;
+  let wave: WaveParams | null = null;
+  let waveField = DEFAULT_WAVE_FIELD;
+  let intensity: CircleWallpaperSceneIntensity | null = null;
+  let highlights: CircleWallpaperHighlight[] = [];
+  let effects: CircleWallpaperEffect[] = [];
+  let interaction: CircleWallpaperInteraction | null = null;
+  let looping = false;
+  let contextLost = false;
+  let disposed = false;
+  const { onQualityChange, onFailure } = settings;
+  const governor = createQualityGovernor(settings.minQuality, settings.maxQuality);
+  const frameTimer = createFrameTimer();
+  let lastFrameTimestamp: number | null = null;
+
+  // Resizing clears the canvas, so redraw immediately instead of waiting a frame.
+  const requestRender = () => {
+    if (visible && !contextLost) {
+      view.render();
+    }
+  };
+  let view = createCircleWallpaperView(
+    renderer,
+    options,
+    QUALITY_TIERS[governor.quality],
+    requestRender,
+  );
+
+  const applyPixelRatio = () => {
+    const { width, height, pixelRatio } = currentViewport;
+    if (width === 0 || height === 0) {
+      return false;
+    }
+    renderer.setPixelRatio(Math.min(pixelRatio, QUALITY_TIERS[governor.quality].maxPixelRatio));
+    renderer.setSize(width, height, false);
+    return true;
+  };
+
+  const applyViewport = () => {
+    if (applyPixelRatio()) {
+      view.resize(currentViewport.width, currentViewport.height);
+    }
+  };
+
+  const applyQuality = (quality: CircleWallpaperQuality | null) => {
+    if (!quality) {
+      return;
+    }
+    applyPixelRatio();
+    view.setQuality(QUALITY_TIERS[quality]);
+    onQualityChange?.(quality);
+  };
+
+  const animate = (timestamp: number) => {
+    if (lastFrameTimestamp !== null) {
+      frameTimer.sample(timestamp - lastFrameTimestamp);
+      applyQuality(governor.sample(timestamp - lastFrameTimestamp));
+    }
+    lastFrameTimestamp = timestamp;
+    view.animate(timestamp);
+    view.render();
+  };
+
+  const resize = (nextViewport: CircleWallpaperViewport) => {
+    currentViewport = nextViewport;
+    applyViewport();
+  };
+
+  const rebuildView = () => {
+    view.dispose();
+    view = createCircleWallpaperView(
+      renderer,
+      currentOptions,
+      QUALITY_TIERS[governor.quality],
+      requestRender,
+    );
+    view.setTransition(transition);
+    view.setMotion(motion);
+    view.setPaused(paused);
+    view.setPlaybackRate(playbackRate);
+    view.setTime(time);
+    view.setTheme(theme);
+    view.setWaveField(waveField);
+    if (wave) {
+      view.setWave(wave);
+    }
+    view.setIntensity(intensity);
+    view.setHighlights(highlights);
+    view.setEffects(effects);
+    view.setInteraction(interaction);
+    view.setCircleTexture(circleTexture);
+    applyViewport();
+  };
+
+  const setOptions = (nextOptions: CircleWallpaperSceneOptions) => {
+    if (disposed) {
+      return;
+    }
+    currentOptions = nextOptions;
+    view.setOptions(currentOptions);
+  };
+
+  const setTransition = (nextTransition: CircleWallpaperTransition) => {
+    if (disposed) {
+      return;
+    }
+    transition = nextTransition;
+    view.setTransition(transition);
+  };
+
+  const setTheme = (nextTheme: CircleWallpaperTheme) => {
+    if (disposed) {
+      return;
+    }
+    theme = nextTheme;
+    view.setTheme(theme);
+  };
+
+  const setWave = (nextWave: WaveParams) => {
+    if (disposed) {
+      return;
+    }
+    wave = nextWave;
+    view.setWave(wave);
+  };
+
+  const setWaveField = (name: string) => {
+    if (disposed) {
+      return;
+    }
+    waveField = name;
+    view.setWaveField(waveField);
+  };
+
+  const setIntensity = (nextIntensity: CircleWallpaperSceneIntensity | null) => {
+    if (disposed) {
+      return;
+    }
+    intensity = nextIntensity;
+    view.setIntensity(intensity);
+  };
+
+  const setHighlights = (nextHighlights: CircleWallpaperHighlight[]) => {
+    if (disposed) {
+      return;
+    }
+    highlights = nextHighlights;
+    view.setHighlights(highlights);
+  };
+
+  const setEffects = (nextEffects: CircleWallpaperEffect[]) => {
+    if (disposed) {
+      return;
+    }
+    effects = nextEffects;
+    view.setEffects(effects);
+  };
+
+  const setCamera = (camera: CircleWallpaperCamera) => {
+    if (disposed) {
+      return;
+    }
+    currentOptions = { ...currentOptions, ...camera };
+    view.setCamera(camera);
+  };
+
+  const setBlur = (blurIntensity: number) => {
+    if (disposed) {
+      return;
+    }
+    currentOptions = { ...currentOptions, blurIntensity };
+    view.setBlur(blurIntensity);
+  };
+
+  const captureFrame = (type?: string, quality?: number) => {
+    if (disposed || contextLost) {
+      return Promise.reject(createNoFrameError());
+    }
+    view.render();
+    return encodeCanvas(canvas, type, quality);
+  };
+
+  const getStats = () =>
+    Promise.resolve<CircleWallpaperStats>({
+      ...view.getStats(),
+      quality: governor.quality,
+      fps: frameTimer.fps,
+      frameMs: frameTimer.frameMs,
+      width: currentViewport.width,
+      height: currentViewport.height,
+      pixelRatio: renderer.getPixelRatio(),
+    });
+
+  const setInteraction = (nextInteraction: CircleWallpaperInteraction | null) => {
+    if (disposed) {
+      return;
+    }
+    interaction = nextInteraction;
+    view.setInteraction(interaction);
+  };
+
+  const setPointer = (point: CircleWallpaperPoint | null) => {
+    if (!disposed) {
+      view.setPointer(point);
+    }
+  };
+
+  const addRipple = (point: CircleWallpaperPoint) => {
+    if (!disposed) {
+      view.addRipple(point);
+    }
+  };
+
+  const setCircleImage = (image: HTMLImageElement | ImageBitmap) => {
+    if (disposed) {
+      return;
+    }
+    circleImage = image;
+    circleTexture?.dispose();
+    circleTexture = createCircleTexture(renderer, image);
+    view.setCircleTexture(circleTexture);
+  };
+
+  const updateLoop = () => {
+    const shouldLoop = !disposed && !contextLost && visible && motion !== "none";
+    if (shouldLoop === looping) {
+      return;
+    }
+    looping = shouldLoop;
+    lastFrameTimestamp = null;
+    frameTimer.reset();
+    if (looping) {
+      view.suspend();
+      renderer.setAnimationLoop(animate);
+    } else {
+      renderer.setAnimationLoop(null);
+    }
+  };
+
+  const setVisible = (nextVisible: boolean) => {
+    if (disposed || nextVisible === visible) {
+      return;
+    }
+    visible = nextVisible;
+    updateLoop();
+    if (!looping) {
+      // A frozen wallpaper may have missed resizes while hidden.
+      requestRender();
+    }
+  };
+
+  const setMotion = (nextMotion: CircleWallpaperMotion) => {
+    if (disposed || nextMotion === motion) {
+      return;
+    }
+    motion = nextMotion;
+    view.setMotion(motion);
+    updateLoop();
+    if (!looping) {
+      requestRender();
+    }
+  };
+
+  const setTime = (seconds: number | null) => {
+    if (disposed) {
+      return;
+    }
+    time = seconds;
+    view.setTime(time);
+  };
+
+  const setPaused = (nextPaused: boolean) => {
+    if (disposed) {
+      return;
+    }
+    paused = nextPaused;
+    view.setPaused(paused);
+  };
+
+  const setPlaybackRate = (rate: number) => {
+    if (disposed) {
+      return;
+    }
+    playbackRate = rate;
+    view.setPlaybackRate(playbackRate);
+  };
+
+  const handleContextLost = (event: Event) => {
+    // Without preventDefault the browser never restores the context.
+    event.preventDefault();
+    contextLost = true;
+    updateLoop();
+    onFailure?.(createContextLostError());
+  };
+
+  // Every GPU resource died with the old context; rebuild meshes, textures and composer.
+  const handleContextRestored = () => {
+    contextLost = false;
+    circleTexture?.dispose();
+    circleTexture = circleImage ? createCircleTexture(renderer, circleImage) : null;
+    rebuildView();
+    updateLoop();
+    onFailure?.(null);
+  };
+
+  const dispose = () => {
+    if (disposed) {
+      return;
+    }
+    disposed = true;
+    canvas.removeEventListener("webglcontextlost", handleContextLost);
+    canvas.removeEventListener("webglcontextrestored", handleContextRestored);
+    updateLoop();
+    view.dispose();
+    circleTexture?.dispose();
+    circleTexture = null;
+    renderer.dispose();
+  };
+
+  const setQualityRange = (
+    minQuality: CircleWallpaperQuality,
+    maxQuality: CircleWallpaperQuality,
+  ) => {
+    if (!disposed) {
+      applyQuality(governor.setRange(minQuality, maxQuality));
+    }
+  };
+
+  canvas.addEventListener("webglcontextlost", handleContextLost);
+  canvas.addEventListener("webglcontextrestored", handleContextRestored);
+  applyViewport();
+  updateLoop();
+
+  return {
+    resize,
+    setOptions,
+    setTransition,
+    setTheme,
+    setCircleImage,
+    setVisible,
+    setMotion,
+    setTime,
+    setPaused,
+    setPlaybackRate,
+    setWave,
+    setWaveField,
+    setIntensity,
+    setHighlights,
+    setEffects,
+    setCamera,
+    setBlur,
+    captureFrame,
+    getStats,
+    setInteraction,
+    setPointer,
+    addRipple,
+    setQualityRange,
+    dispose,
+  };
+}
+
+type SharedViewEntry = {
+  options: CircleWallpaperSceneOptions;
+  transition: CircleWallpaperTransition;
+  getRect: () => CircleWallpaperRect;
+  view: CircleWallpaperView | null;
+  width: number;
+  height: number;
+  visible: boolean;
+  motion: CircleWallpaperMotion;
+  time: number | null;
+  paused: boolean;
+  playbackRate: number;
+  theme: CircleWallpaperTheme;
+  wave: WaveParams | null;
+  waveField: string;
+  intensity: CircleWallpaperSceneIntensity | null;
+  highlights: CircleWallpaperHighlight[];
+  effects: CircleWallpaperEffect[];
+  interaction: CircleWallpaperInteraction | null;
+  circleImage: HTMLImageElement | ImageBitmap | null;
+  circleTexture: THREE.Texture | null;
+  onFailure?: CircleWallpaperFailureListener;
+};
+
+// One WebGL context for every attached wallpaper: each view is drawn into the scissor region
+// of a single page-sized canvas that matches its container's on-screen rect.
+export function createSharedCircleWallpaperRenderer(): SharedCircleWallpaperRenderer {
+  const entries = new Set<SharedViewEntry>();
+  let renderer: THREE.WebGLRenderer | null = null;
+  let canvasElement: HTMLCanvasElement | null = null;
+  let currentViewport: CircleWallpaperViewport = { width: 0, height: 0, pixelRatio: 1 };
+  let visible = true;
+  let looping = false;
+  let failure: Error | null = null;
+  const governor = createQualityGovernor();
+  const frameTimer = createFrameTimer();
+  let lastFrameTimestamp: number | null = null;
+  let onQualityChange: CircleWallpaperQualityListener | undefined;
+
+  const buildView = (entry: SharedViewEntry) => {
+    entry.view?.dispose();
+    entry.view = null;
+    entry.width = 0;
+    entry.height = 0;
+    if (!renderer) {
+      return;
+    }
+    // Views draw from the shared loop only; a standalone render would clear the other regions.
+    entry.view = createCircleWallpaperView(
+      renderer,
+      entry.options,
+      QUALITY_TIERS[governor.quality],
+      () => {},
+    );
+    entry.view.setTransition(entry.transition);
+    entry.view.setMotion(entry.motion);
+    entry.view.setPaused(entry.paused);
+    entry.view.setPlaybackRate(entry.playbackRate);
+    entry.view.setTime(entry.time);
+    entry.view.setTheme(entry.theme);
+    entry.view.setWaveField(entry.waveField);
+    if (entry.wave) {
+      entry.view.setWave(entry.wave);
+    }
+    entry.view.setIntensity(entry.intensity);
+    entry.view.setHighlights(entry.highlights);
+    entry.view.setEffects(entry.effects);
+    entry.view.setInteraction(entry.interaction);
+    entry.view.setCircleTexture(entry.circleTexture);
+  };
+
+  const buildCircleTexture = (entry: SharedViewEntry) => {
+    entry.circleTexture?.dispose();
+    entry.circleTexture =
+      renderer && entry.circleImage ? createCircleTexture(renderer, entry.circleImage) : null;
+  };
+
+  const clearCanvas = () => {
+    if (!renderer) {
+      return;
+    }
+    renderer.setScissorTest(false);
+    renderer.setClearColor(0x000000, 0);
+    renderer.clear();
+  };
+
+  // The entry's rect in canvas pixels, or null when none of it is on the canvas.
+  const entryRegion = (entry: SharedViewEntry, canvasRect: DOMRect) => {
+    const { width: canvasWidth, height: canvasHeight } = currentViewport;
+    const rect = entry.getRect();
+    const left = Math.round(rect.left - canvasRect.left);
+    const top = Math.round(rect.top - canvasRect.top);
+    const width = Math.round(rect.width);
+    const height = Math.round(rect.height);
+    if (
+      width <= 0 ||
+      height <= 0 ||
+      left >= canvasWidth ||
+      top >= canvasHeight ||
+      left + width <= 0 ||
+      top + height <= 0
+    ) {
+      return null;
+    }
+    return { left, top, width, height };
+  };
+
+  const drawViews = (timestamp: number) => {
+    if (!renderer || !canvasElement) {
+      return;
+    }
+    const { width: canvasWidth, height: canvasHeight } = currentViewport;
+    const canvasRect = canvasElement.getBoundingClientRect();
+    clearCanvas();
+    renderer.setScissorTest(true);
+
+    for (const entry of entries) {
+      const { view } = entry;
+      if (!view || !entry.visible) {
+        continue;
+      }
+      const region = entryRegion(entry, canvasRect);
+      if (!region) {
+        view.suspend();
+        continue;
+      }
+      const { left, top, width, height } = region;
+      if (width !== entry.width || height !== entry.height) {
+        entry.width = width;
+        entry.height = height;
+        view.resize(width, height);
+      }
+
+      const bottom = canvasHeight - (top + height);
+      renderer.setViewport(left, bottom, width, height);
+      renderer.setScissor(left, bottom, width, height);
+      view.animate(timestamp);
+      view.render();
+    }
+
+    renderer.setScissorTest(false);
+    renderer.setViewport(0, 0, canvasWidth, canvasHeight);
+  };
+
+  const renderFrame = (timestamp: number) => {
+    if (lastFrameTimestamp !== null) {
+      frameTimer.sample(timestamp - lastFrameTimestamp);
+      applyQuality(governor.sample(timestamp - lastFrameTimestamp));
+    }
+    lastFrameTimestamp = timestamp;
+    drawViews(timestamp);
+  };
+
+  const setFailure = (error: Error | null) => {
+    failure = error;
+    for (const entry of entries) {
+      entry.onFailure?.(error);
+    }
+  };
+
+  const refresh = () => {
+    if (!renderer || looping || failure) {
+      return;
+    }
+    if (visible) {
+      drawViews(performance.now());
+    } else {
+      clearCanvas();
+    }
+  };
+
+  const updateLoop = () => {
+    if (!renderer) {
+      return;
+    }
+    let hasAnimatedEntry = false;
+    for (const entry of entries) {
+      if (entry.visible && entry.motion !== "none") {
+        hasAnimatedEntry = true;
+        break;
+      }
+    }
+    const shouldLoop = visible && hasAnimatedEntry && !failure;
+    if (shouldLoop !== looping) {
+      looping = shouldLoop;
+      lastFrameTimestamp = null;
+      frameTimer.reset();
+      if (looping) {
+        for (const entry of entries) {
+          entry.view?.suspend();
+        }
+        renderer.setAnimationLoop(renderFrame);
+      } else {
+        renderer.setAnimationLoop(null);
+      }
+    }
+    // Without a loop, frozen wallpapers still need their single frame.
+    refresh();
+  };
+
+  const buildResources = () => {
+    for (const entry of entries) {
+      buildCircleTexture(entry);
+      buildView(entry);
+    }
+  };
+
+  const handleContextLost = (event: Event) => {
+    // Without preventDefault the browser never restores the context.
+    event.preventDefault();
+    setFailure(createContextLostError());
+    updateLoop();
+  };
+
+  // Every GPU resource died with the old context; rebuild meshes, textures and composers.
+  const handleContextRestored = () => {
+    buildResources();
+    setFailure(null);
+    resize(currentViewport);
+    updateLoop();
+  };
+
+  const mount = (canvas: HTMLCanvasElement, viewport: CircleWallpaperViewport) => {
+    unmount();
+    currentViewport = viewport;
+    try {
+      renderer = new THREE.WebGLRenderer({
+        canvas,
+        antialias: false,
+        alpha: true,
+        premultipliedAlpha: true,
+        powerPreference: "high-performance",
+      });
+    } catch (error) {
+      setFailure(toError(error));
+      return;
+    }
+    renderer.outputColorSpace = THREE.SRGBColorSpace;
+    canvasElement = canvas;
+    canvas.addEventListener("webglcontextlost", handleContextLost);
+    canvas.addEventListener("webglcontextrestored", handleContextRestored);
+    if (failure) {
+      setFailure(null);
+    }
+    buildResources();
+    resize(viewport);
+    updateLoop();
+  };
+
+  const unmount = () => {
+    if (!renderer) {
+      return;
+    }
+    renderer.setAnimationLoop(null);
+    looping = false;
+    canvasElement?.removeEventListener("webglcontextlost", handleContextLost);
+    canvasElement?.removeEventListener("webglcontextrestored", handleContextRestored);
+    for (const entry of entries) {
+      entry.view?.dispose();
+      entry.view = null;
+      entry.circleTexture?.dispose();
+      entry.circleTexture = null;
+    }
+    renderer.dispose();
+    renderer = null;
+    canvasElement = null;
+  };
+
+  const applyPixelRatio = () => {
+    const { width, height, pixelRatio } = currentViewport;
+    if (!renderer || width === 0 || height === 0) {
+      return;
+    }
+    renderer.setPixelRatio(Math.min(pixelRatio, QUALITY_TIERS[governor.quality].maxPixelRatio));
+    renderer.setSize(width, height, false);
+  };
+
+  const applyQuality = (quality: CircleWallpaperQuality | null) => {
+    if (!quality) {
+      return;
+    }
+    applyPixelRatio();
+    for (const entry of entries) {
+      entry.view?.setQuality(QUALITY_TIERS[quality]);
+    }
+    onQualityChange?.(quality);
+  };
+
+  const resize = (viewport: CircleWallpaperViewport) => {
+    currentViewport = viewport;
+    if (!renderer || viewport.width === 0 || viewport.height === 0) {
+      return;
+    }
+    applyPixelRatio();
+    // Composer targets follow the pixel ratio, so every view needs a resize on the next frame.
+    for (const entry of entries) {
+      entry.width = 0;
+      entry.height = 0;
+    }
+    if (looping) {
+      renderFrame(performance.now());
+    } else {
+      refresh();
+    }
+  };
+
+  const setVisible = (nextVisible: boolean) => {
+    visible = nextVisible;
+    updateLoop();
+  };
+
+  const attach = (
+    options: CircleWallpaperSceneOptions,
+    getRect: () => CircleWallpaperRect,
+    onFailure?: CircleWallpaperFailureListener,
+  ): CircleWallpaperInstance => {
+    const entry: SharedViewEntry = {
+      options,
+      transition: DEFAULT_TRANSITION,
+      getRect,
+      view: null,
+      width: 0,
+      height: 0,
+      visible: true,
+      motion: "full",
+      time: null,
+      paused: false,
+      playbackRate: 1,
+      theme: CIRCLE_WALLPAPER_THEMES.light,
+      wave: null,
+      waveField: DEFAULT_WAVE_FIELD,
+      intensity: null,
+      highlights: [],
+      effects: [],
+      interaction: null,
+      circleImage: null,
+      circleTexture: null,
+      onFailure,
+    };
+    entries.add(entry);
+    buildView(entry);
+    updateLoop();
+    if (failure) {
+      onFailure?.(failure);
+    }
+
+    return {
+      setOptions: (nextOptions) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.options = nextOptions;
+        entry.view?.setOptions(nextOptions);
+        refresh();
+      },
+      setTransition: (nextTransition) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.transition = nextTransition;
+        entry.view?.setTransition(nextTransition);
+      },
+      setTheme: (nextTheme) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.theme = nextTheme;
+        entry.view?.setTheme(nextTheme);
+        refresh();
+      },
+      setCircleImage: (image) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.circleImage = image;
+        buildCircleTexture(entry);
+        entry.view?.setCircleTexture(entry.circleTexture);
+        refresh();
+      },
+      setQualityRange: () => {},
+      setVisible: (nextVisible) => {
+        if (!entries.has(entry) || entry.visible === nextVisible) {
+          return;
+        }
+        entry.visible = nextVisible;
+        entry.view?.suspend();
+        updateLoop();
+      },
+      setMotion: (nextMotion) => {
+        if (!entries.has(entry) || entry.motion === nextMotion) {
+          return;
+        }
+        entry.motion = nextMotion;
+        entry.view?.setMotion(nextMotion);
+        updateLoop();
+      },
+      setTime: (seconds) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.time = seconds;
+        entry.view?.setTime(seconds);
+        refresh();
+      },
+      setPaused: (nextPaused) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.paused = nextPaused;
+        entry.view?.setPaused(nextPaused);
+      },
+      setPlaybackRate: (rate) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.playbackRate = rate;
+        entry.view?.setPlaybackRate(rate);
+      },
+      setWave: (nextWave) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.wave = nextWave;
+        entry.view?.setWave(nextWave);
+        refresh();
+      },
+      setWaveField: (name) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.waveField = name;
+        entry.view?.setWaveField(name);
+        refresh();
+      },
+      setIntensity: (nextIntensity) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.intensity = nextIntensity;
+        entry.view?.setIntensity(nextIntensity);
+        refresh();
+      },
+      setHighlights: (nextHighlights) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.highlights = nextHighlights;
+        entry.view?.setHighlights(nextHighlights);
+        refresh();
+      },
+      setEffects: (nextEffects) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.effects = nextEffects;
+        entry.view?.setEffects(nextEffects);
+        refresh();
+      },
+      setCamera: (camera) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.options = { ...entry.options, ...camera };
+        entry.view?.setCamera(camera);
+        refresh();
+      },
+      setBlur: (blurIntensity) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.options = { ...entry.options, blurIntensity };
+        entry.view?.setBlur(blurIntensity);
+        refresh();
+      },
+      captureFrame: (type, quality) => {
+        if (!entries.has(entry) || !renderer || !canvasElement || failure) {
+          return Promise.reject(createNoFrameError());
+        }
+        drawViews(performance.now());
+        const region = entry.visible
+          ? entryRegion(entry, canvasElement.getBoundingClientRect())
+          : null;
+        if (!region) {
+          return Promise.reject(createNoFrameError());
+        }
+        const pixelRatio = renderer.getPixelRatio();
+        const { canvas, context } = createCanvas2D(
+          Math.round(region.width * pixelRatio),
+          Math.round(region.height * pixelRatio),
+        );
+        if (!context) {
+          return Promise.reject(createNoFrameError());
+        }
+        // Crop this wallpaper out of the page-sized canvas.
+        context.drawImage(
+          canvasElement,
+          region.left * pixelRatio,
+          region.top * pixelRatio,
+          canvas.width,
+          canvas.height,
+          0,
+          0,
+          canvas.width,
+          canvas.height,
+        );
+        return encodeCanvas(canvas, type, quality);
+      },
+      getStats: () =>
+        Promise.resolve<CircleWallpaperStats>({
+          time: 0,
+          circles: 0,
+          particles: 0,
+          ...entry.view?.getStats(),
+          quality: governor.quality,
+          fps: frameTimer.fps,
+          frameMs: frameTimer.frameMs,
+          width: entry.width,
+          height: entry.height,
+          pixelRatio: renderer?.getPixelRatio() ?? 1,
+        }),
+      setInteraction: (nextInteraction) => {
+        if (!entries.has(entry)) {
+          return;
+        }
+        entry.interaction = nextInteraction;
+        entry.view?.setInteraction(nextInteraction);
+      },
+      setPointer: (point) => {
+        entry.view?.setPointer(point);
+      },
+      addRipple: (point) => {
+        entry.view?.addRipple(point);
+      },
+      dispose: () => {
+        if (!entries.delete(entry)) {
+          return;
+        }
+        entry.view?.dispose();
+        entry.view = null;
+        entry.circleTexture?.dispose();
+        entry.circleTexture = null;
+        updateLoop();
+      },
+    };
+  };
+
+  const setQualityRange = (
+    minQuality: CircleWallpaperQuality,
+    maxQuality: CircleWallpaperQuality,
+  ) => {
+    applyQuality(governor.setRange(minQuality, maxQuality));
+  };
+
+  const setQualityListener = (listener: CircleWallpaperQualityListener | undefined) => {
+    onQualityChange = listener;
+  };
+
+  return {
+    attach,
+    mount,
+    unmount,
+    resize,
+    setVisible,
+    refresh,
+    setQualityRange,
+    setQualityListener,
+  };
+}
@@ -0,0 +1,69 @@
+// app/components/circleWallpaperTheme.ts
+export type CircleWallpaperColorScheme = "light" | "dark";
+
+export type CircleWallpaperGradientStop = {
+  offset: number;
+  color: string;
+};
+
+export type CircleWallpaperTheme = {
+  // Any CSS color, or "transparent" to let the page show through.
+  background: string;
+  // Multiplied with the circle texture.
+  circleTint: string;
+  circleTextureUrl: string;
+  // Multiplied with the radial particle gradient.
+  particleColor: string;
+  particleGradient: CircleWallpaperGradientStop[];
+};
+
+// A preset name, or overrides on top of the preset matching prefers-color-scheme.
+export type CircleWallpaperThemeProp = CircleWallpaperColorScheme | Partial<CircleWallpaperTheme>;
+
+const PARTICLE_GRADIENT: CircleWallpaperGradientStop[] = [
+  { offset: 0, color: "rgba(255, 255, 255, 1)" },
+  { offset: 0.35, color: "rgba(225, 244, 255, 0.95)" },
+  { offset: 0.68, color: "rgba(130, 200, 255, 0.5)" },
+  { offset: 1, color: "rgba(110, 185, 255, 0)" },
+];
+
+// Backgrounds match the --background values in globals.css.
+export const CIRCLE_WALLPAPER_THEMES: Record<CircleWallpaperColorScheme, CircleWallpaperTheme> = {
+  light: {
+    background: "#ffffff",
+    circleTint: "#ffffff",
+    circleTextureUrl: "/circle.svg",
+    particleColor: "#87c7ff",
+    particleGradient: PARTICLE_GRADIENT,
+  },
+  dark: {
+    background: "#0a0a0a",
+    circleTint: "#ffffff",
+    circleTextureUrl: "/circle-white.svg",
+    particleColor: "#87c7ff",
+    particleGradient: PARTICLE_GRADIENT,
+  },
+};
+
+export function resolveCircleWallpaperTheme(
+  theme: CircleWallpaperThemeProp | undefined,
+  colorScheme: CircleWallpaperColorScheme,
+): CircleWallpaperTheme {
+  if (theme === "light" || theme === "dark") {
+    return CIRCLE_WALLPAPER_THEMES[theme];
+  }
+  const preset = CIRCLE_WALLPAPER_THEMES[colorScheme];
+  if (!theme) {
+    return preset;
+  }
+  return {
+    background: theme.background ?? preset.background,
+    circleTint: theme.circleTint ?? preset.circleTint,
+    circleTextureUrl: theme.circleTextureUrl ?? preset.circleTextureUrl,
+    particleColor: theme.particleColor ?? preset.particleColor,
+    particleGradient:
+      theme.particleGradient && theme.particleGradient.length > 0
+        ? theme.particleGradient
+        : preset.particleGradient,
+  };
+}
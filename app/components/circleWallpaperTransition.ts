@@ -0,0 +1,142 @@
+// app/components/circleWallpaperTransition.ts
+export const CIRCLE_WALLPAPER_EASINGS = ["linear", "easeIn", "easeOut", "easeInOut"] as const;
+
+export type CircleWallpaperEasingName = (typeof CIRCLE_WALLPAPER_EASINGS)[number];
+
+// A named curve, or the control points of a CSS cubic-bezier().
+export type CircleWallpaperEasing =
+  | CircleWallpaperEasingName
+  | [x1: number, y1: number, x2: number, y2: number];
+
+export type CircleWallpaperTransition = {
+  // Milliseconds; 0 applies changes at once.
+  duration: number;
+  easing: CircleWallpaperEasing;
+};
+
+export const DEFAULT_TRANSITION: CircleWallpaperTransition = { duration: 1000, easing: "easeInOut" };
+
+// Same curves as the CSS keywords.
+const NAMED_EASINGS: Record<CircleWallpaperEasingName, [number, number, number, number]> = {
+  linear: [0, 0, 1, 1],
+  easeIn: [0.42, 0, 1, 1],
+  easeOut: [0, 0, 0.58, 1],
+  easeInOut: [0.42, 0, 0.58, 1],
+};
+
+const NEWTON_ITERATIONS = 8;
+const BISECTION_ITERATIONS = 32;
+const BEZIER_EPSILON = 1e-6;
+
+export function isCircleWallpaperEasing(value: unknown): value is CircleWallpaperEasing {
+  if (Array.isArray(value)) {
+    return value.length === 4 && value.every((point) => Number.isFinite(point));
+  }
+  return (CIRCLE_WALLPAPER_EASINGS as readonly unknown[]).includes(value);
+}
+
+function cubicBezier(x1: number, y1: number, x2: number, y2: number) {
+  const curve = (a: number, b: number, s: number) =>
+    3 * a * s * (1 - s) ** 2 + 3 * b * s * s * (1 - s) + s ** 3;
+  const slope = (a: number, b: number, s: number) =>
+    3 * a * (1 - s) ** 2 + 6 * (b - a) * s * (1 - s) + 3 * (1 - b) * s * s;
+  // Like CSS, x control points are clamped so the curve stays a function of time.
+  const controlX1 = Math.min(1, Math.max(0, x1));
+  const controlX2 = Math.min(1, Math.max(0, x2));
+
+  return (progress: number) => {
+    if (progress <= 0) {
+      return 0;
+    }
+    if (progress >= 1) {
+      return 1;
+    }
+    let s = progress;
+    for (let i = 0; i < NEWTON_ITERATIONS; i += 1) {
+      const error = curve(controlX1, controlX2, s) - progress;
+      const derivative = slope(controlX1, controlX2, s);
+      if (Math.abs(error) < BEZIER_EPSILON || Math.abs(derivative) < BEZIER_EPSILON) {
+        break;
+      }
+      s -= error / derivative;
+    }
+    // Newton stalls on flat stretches of the curve; bisection always converges.
+    if (!(s >= 0 && s <= 1) || Math.abs(curve(controlX1, controlX2, s) - progress) > 1e-4) {
+      let low = 0;
+      let high = 1;
+      for (let i = 0; i < BISECTION_ITERATIONS; i += 1) {
+        s = (low + high) / 2;
+        if (curve(controlX1, controlX2, s) < progress) {
+          low = s;
+        } else {
+          high = s;
+        }
+      }
+    }
+    return curve(y1, y2, s);
+  };
+}
+
+export function resolveEasing(easing: CircleWallpaperEasing) {
+  const [x1, y1, x2, y2] = typeof easing === "string" ? NAMED_EASINGS[easing] : easing;
+  return cubicBezier(x1, y1, x2, y2);
+}
+
+export type Tween = {
+  readonly values: readonly number[];
+  // A null transition jumps straight to the target.
+  set: (target: readonly number[], transition: CircleWallpaperTransition | null) => void;
+  // Returns whether the values moved.
+  advance: (deltaMs: number) => boolean;
+};
+
+// Retargeting mid-flight starts the new tween from wherever the old one had got to, so values
+// never jump; retargeting to the current target leaves the running tween alone.
+export function createTween(initial: readonly number[]): Tween {
+  let current = initial.slice();
+  let from = current;
+  let to = current;
+  let elapsed = 0;
+  let duration = 0;
+  let ease = resolveEasing("linear");
+
+  const set = (target: readonly number[], transition: CircleWallpaperTransition | null) => {
+    if (!transition || transition.duration <= 0) {
+      to = target.slice();
+      current = to;
+      duration = 0;
+      return;
+    }
+    if (target.every((value, index) => value === to[index])) {
+      return;
+    }
+    from = current;
+    to = target.slice();
+    elapsed = 0;
+    duration = transition.duration;
+    ease = resolveEasing(transition.easing);
+  };
+
+  const advance = (deltaMs: number) => {
+    if (duration <= 0) {
+      return false;
+    }
+    elapsed = Math.min(duration, elapsed + deltaMs);
+    if (elapsed >= duration) {
+      current = to;
+      duration = 0;
+      return true;
+    }
+    const progress = ease(elapsed / duration);
+    current = from.map((value, index) => value + (to[index] - value) * progress);
+    return true;
+  };
+
+  return {
+    get values() {
+      return current;
+    },
+    set,
+    advance,
+  };
+}
@@ -0,0 +1,4 @@
+// app/components/circleWallpaperValueKey.ts
+// Inline props are new objects every render, so effects depend on this key to compare them by
+// value and parse it back when they run.
+export const toValueKey = (value: unknown) => JSON.stringify(value ?? null);
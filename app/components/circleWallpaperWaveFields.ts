@@ -0,0 +1,330 @@
+// app/components/circleWallpaperWaveFields.ts
+import type { WaveParams } from "./circleWallpaperScene";
+
+// Accumulated phase of the primary, secondary, ripple and pulse terms.
+export type WavePhases = [number, number, number, number];
+
+export type WaveFieldState = {
+  params: WaveParams;
+  phases: WavePhases;
+  // Motion-scaled seconds, wrapped like the waveTime uniform. Motion that must never jump should
+  // follow the phases instead.
+  time: number;
+};
+
+export type WaveField = {
+  // Must define `vec3 waveField( vec2 wavePosition )` returning the primary, secondary and detail
+  // heights; circles add them up, particles weight them. The wave uniforms (waveTime, waveLength,
+  // waveAmplitudes, wavePhases, waveSpatial) are in scope, and helpers may be declared alongside.
+  // waveTime wraps every 200π seconds; wavePhases never jump. wavePosition is relative to the wave
+  // origin and already rotated by the wave direction.
+  glsl: string;
+  // CPU mirror returning the summed height at a wave position. Depth of field samples it to
+  // stay on the crest; fields without one focus on the wave's full extent instead.
+  sample?: (x: number, y: number, state: WaveFieldState) => number;
+};
+
+export type RegisteredWaveField = WaveField & {
+  name: string;
+  // Changes on every registration so re-registered shaders are recompiled.
+  programKey: string;
+};
+
+export const DEFAULT_WAVE_FIELD = "sines";
+
+// Gerstner crests are pinched by this much; must stay below 1 or the profile folds over.
+const GERSTNER_STEEPNESS = 0.6;
+const GERSTNER_ITERATIONS = 4;
+// Radial rings lose half their height this many wavelengths from the origin.
+const RADIAL_FALLOFF_WAVELENGTHS = 4;
+// Noise drifts around a circle of this radius per phase cycle, so wrapped phases never jump.
+const NOISE_DRIFT = 0.6;
+
+export const glslFloat = (value: number) => (Number.isInteger(value) ? value.toFixed(1) : String(value));
+
+const SINES_FIELD: WaveField = {
+  glsl: `
+vec3 waveField( vec2 wavePosition ) {
+\tfloat primaryWave = sin( wavePosition.x / waveLength + wavePhases.x ) * waveAmplitudes.x;
+\tfloat secondaryWave = sin(
+\t\twavePosition.y / ( waveLength * 0.7 ) +
+\t\twavePosition.x / ( waveLength * 1.3 ) +
+\t\twavePhases.y
+\t) * waveAmplitudes.y;
+\tfloat ripples = sin(
+\t\twavePosition.x * waveSpatial.x +
+\t\twavePosition.y * waveSpatial.y +
+\t\twavePhases.z
+\t) * waveAmplitudes.z;
+\treturn vec3( primaryWave, secondaryWave, ripples );
+}
+`,
+  sample: (x, y, { params, phases }) => {
+    const { amplitude, secondaryAmplitude, rippleAmplitude, waveLength } = params;
+    const primaryWave = Math.sin(x / waveLength + phases[0]) * amplitude;
+    const secondaryWave =
+      Math.sin(y / (waveLength * 0.7) + x / (waveLength * 1.3) + phases[1]) * secondaryAmplitude;
+    const ripples =
+      Math.sin(x * params.rippleFrequencyX + y * params.rippleFrequencyZ + phases[2]) *
+      rippleAmplitude;
+    return primaryWave + secondaryWave + ripples;
+  },
+};
+
+// Trochoidal profile: solves for the undisplaced phase by fixed-point iteration, which
+// converges because the steepness is below 1.
+const gerstner = (linearPhase: number, amplitude: number) => {
+  let theta = linearPhase;
+  for (let i = 0; i < GERSTNER_ITERATIONS; i += 1) {
+    theta = linearPhase - GERSTNER_STEEPNESS * Math.cos(theta);
+  }
+  return Math.sin(theta) * amplitude;
+};
+
+const GERSTNER_FIELD: WaveField = {
+  glsl: `
+float waveGerstner( float linearPhase, float amplitude ) {
+\tfloat theta = linearPhase;
+\tfor ( int i = 0; i < ${GERSTNER_ITERATIONS}; i ++ ) {
+\t\ttheta = linearPhase - ${glslFloat(GERSTNER_STEEPNESS)} * cos( theta );
+\t}
+\treturn sin( theta ) * amplitude;
+}
+
+vec3 waveField( vec2 wavePosition ) {
+\treturn vec3(
+\t\twaveGerstner( wavePosition.x / waveLength + wavePhases.x, waveAmplitudes.x ),
+\t\twaveGerstner(
+\t\t\twavePosition.y / ( waveLength * 0.7 ) + wavePosition.x / ( waveLength * 1.3 ) + wavePhases.y,
+\t\t\twaveAmplitudes.y
+\t\t),
+\t\twaveGerstner(
+\t\t\twavePosition.x * waveSpatial.x + wavePosition.y * waveSpatial.y + wavePhases.z,
+\t\t\twaveAmplitudes.z
+\t\t)
+\t);
+}
+`,
+  sample: (x, y, { params, phases }) => {
+    const { waveLength } = params;
+    return (
+      gerstner(x / waveLength + phases[0], params.amplitude) +
+      gerstner(y / (waveLength * 0.7) + x / (waveLength * 1.3) + phases[1], params.secondaryAmplitude) +
+      gerstner(
+        x * params.rippleFrequencyX + y * params.rippleFrequencyZ + phases[2],
+        params.rippleAmplitude,
+      )
+    );
+  },
+};
+
+// Rings spread from the wave origin (originX, originZ) and fade with distance.
+const RADIAL_FIELD: WaveField = {
+  glsl: `
+vec3 waveField( vec2 wavePosition ) {
+\tfloat radius = length( wavePosition );
+\tfloat falloff = 1.0 / ( 1.0 + radius / ( waveLength * ${glslFloat(RADIAL_FALLOFF_WAVELENGTHS)} ) );
+\tfloat primaryWave = sin( radius / waveLength - wavePhases.x ) * waveAmplitudes.x * falloff;
+\tfloat secondaryWave = sin( radius / ( waveLength * 0.45 ) - wavePhases.y ) * waveAmplitudes.y * falloff;
+\tfloat ripples = sin(
+\t\twavePosition.x * waveSpatial.x +
+\t\twavePosition.y * waveSpatial.y +
+\t\twavePhases.z
+\t) * waveAmplitudes.z;
+\treturn vec3( primaryWave, secondaryWave, ripples );
+}
+`,
+  sample: (x, y, { params, phases }) => {
+    const { waveLength } = params;
+    const radius = Math.hypot(x, y);
+    const falloff = 1 / (1 + radius / (waveLength * RADIAL_FALLOFF_WAVELENGTHS));
+    return (
+      Math.sin(radius / waveLength - phases[0]) * params.amplitude * falloff +
+      Math.sin(radius / (waveLength * 0.45) - phases[1]) * params.secondaryAmplitude * falloff +
+      Math.sin(x * params.rippleFrequencyX + y * params.rippleFrequencyZ + phases[2]) *
+        params.rippleAmplitude
+    );
+  },
+};
+
+const fract = (value: number) => value - Math.floor(value);
+const mod289 = (value: number) => value - Math.floor(value / 289) * 289;
+const permute = (value: number) => mod289((value * 34 + 1) * value);
+
+// 2D simplex noise, a line-for-line port of waveSimplex below so CPU and GPU agree.
+function simplexNoise(x: number, y: number) {
+  const skew = (x + y) * 0.366025403784439;
+  let cellX = Math.floor(x + skew);
+  let cellY = Math.floor(y + skew);
+  const unskew = (cellX + cellY) * 0.211324865405187;
+  const x0 = x - cellX + unskew;
+  const y0 = y - cellY + unskew;
+  const stepX = x0 > y0 ? 1 : 0;
+  const stepY = 1 - stepX;
+  cellX = mod289(cellX);
+  cellY = mod289(cellY);
+  const corners = [
+    [permute(permute(cellY) + cellX), x0, y0],
+    [
+      permute(permute(cellY + stepY) + cellX + stepX),
+      x0 + 0.211324865405187 - stepX,
+      y0 + 0.211324865405187 - stepY,
+    ],
+    [permute(permute(cellY + 1) + cellX + 1), x0 - 0.577350269189626, y0 - 0.577350269189626],
+  ];
+  let total = 0;
+  for (const [hash, cornerX, cornerY] of corners) {
+    let weight = Math.max(0.5 - (cornerX * cornerX + cornerY * cornerY), 0);
+    weight *= weight;
+    weight *= weight;
+    const gradientX = 2 * fract(hash * 0.024390243902439) - 1;
+    const gradientY = Math.abs(gradientX) - 0.5;
+    const offsetX = gradientX - Math.floor(gradientX + 0.5);
+    weight *= 1.79284291400159 - 0.85373472095314 * (offsetX * offsetX + gradientY * gradientY);
+    total += weight * (offsetX * cornerX + gradientY * cornerY);
+  }
+  return 130 * total;
+}
+
+const NOISE_FIELD: WaveField = {
+  glsl: `
+vec3 waveNoisePermute( vec3 value ) {
+\treturn mod( ( value * 34.0 + 1.0 ) * value, 289.0 );
+}
+
+float waveSimplex( vec2 point ) {
+\tconst vec4 C = vec4( 0.211324865405187, 0.366025403784439, -0.577350269189626, 0.024390243902439 );
+\tvec2 cell = floor( point + dot( point, C.yy ) );
+\tvec2 x0 = point - cell + dot( cell, C.xx );
+\tvec2 step1 = ( x0.x > x0.y ) ? vec2( 1.0, 0.0 ) : vec2( 0.0, 1.0 );
+\tvec4 x12 = x0.xyxy + C.xxzz;
+\tx12.xy -= step1;
+\tcell = mod( cell, 289.0 );
+\tvec3 hash = waveNoisePermute(
+\t\twaveNoisePermute( cell.y + vec3( 0.0, step1.y, 1.0 ) ) + cell.x + vec3( 0.0, step1.x, 1.0 )
+\t);
+\tvec3 weight = max( 0.5 - vec3( dot( x0, x0 ), dot( x12.xy, x12.xy ), dot( x12.zw, x12.zw ) ), 0.0 );
+\tweight *= weight;
+\tweight *= weight;
+\tvec3 gradientX = 2.0 * fract( hash * C.www ) - 1.0;
+\tvec3 gradientY = abs( gradientX ) - 0.5;
+\tvec3 offsetX = gradientX - floor( gradientX + 0.5 );
+\tweight *= 1.79284291400159 - 0.85373472095314 * ( offsetX * offsetX + gradientY * gradientY );
+\tvec3 corner = vec3(
+\t\toffsetX.x * x0.x + gradientY.x * x0.y,
+\t\toffsetX.y * x12.x + gradientY.y * x12.y,
+\t\toffsetX.z * x12.z + gradientY.z * x12.w
+\t);
+\treturn 130.0 * dot( weight, corner );
+}
+
+vec2 waveNoiseDrift( float phase ) {
+\treturn vec2( cos( phase ), sin( phase ) ) * ${glslFloat(NOISE_DRIFT)};
+}
+
+vec3 waveField( vec2 wavePosition ) {
+\tfloat primaryWave = waveSimplex( wavePosition / ( waveLength * 2.0 ) + waveNoiseDrift( wavePhases.x ) ) *
+\t\twaveAmplitudes.x;
+\tfloat secondaryWave = waveSimplex(
+\t\twavePosition / ( waveLength * 0.9 ) + waveNoiseDrift( wavePhases.y ) + 17.0
+\t) * waveAmplitudes.y;
+\tfloat ripples = waveSimplex(
+\t\twavePosition * waveSpatial.xy * 0.5 + waveNoiseDrift( wavePhases.z ) - 31.0
+\t) * waveAmplitudes.z;
+\treturn vec3( primaryWave, secondaryWave, ripples );
+}
+`,
+  sample: (x, y, { params, phases }) => {
+    const { waveLength } = params;
+    const driftX = (phase: number) => Math.cos(phase) * NOISE_DRIFT;
+    const driftY = (phase: number) => Math.sin(phase) * NOISE_DRIFT;
+    return (
+      simplexNoise(x / (waveLength * 2) + driftX(phases[0]), y / (waveLength * 2) + driftY(phases[0])) *
+        params.amplitude +
+      simplexNoise(
+        x / (waveLength * 0.9) + driftX(phases[1]) + 17,
+        y / (waveLength * 0.9) + driftY(phases[1]) + 17,
+      ) *
+        params.secondaryAmplitude +
+      simplexNoise(
+        x * params.rippleFrequencyX * 0.5 + driftX(phases[2]) - 31,
+        y * params.rippleFrequencyZ * 0.5 + driftY(phases[2]) - 31,
+      ) *
+        params.rippleAmplitude
+    );
+  },
+};
+
+// Nodes stay put while the antinodes rise and fall.
+const STANDING_FIELD: WaveField = {
+  glsl: `
+vec3 waveField( vec2 wavePosition ) {
+\tfloat primaryWave = sin( wavePosition.x / waveLength ) * cos( wavePhases.x ) * waveAmplitudes.x;
+\tfloat secondaryWave = sin( wavePosition.y / ( waveLength * 0.7 ) ) * cos( wavePhases.y ) * waveAmplitudes.y;
+\tfloat ripples = sin( wavePosition.x * waveSpatial.x ) * sin( wavePosition.y * waveSpatial.y ) *
+\t\tcos( wavePhases.z ) * waveAmplitudes.z;
+\treturn vec3( primaryWave, secondaryWave, ripples );
+}
+`,
+  sample: (x, y, { params, phases }) => {
+    const { waveLength } = params;
+    return (
+      Math.sin(x / waveLength) * Math.cos(phases[0]) * params.amplitude +
+      Math.sin(y / (waveLength * 0.7)) * Math.cos(phases[1]) * params.secondaryAmplitude +
+      Math.sin(x * params.rippleFrequencyX) *
+        Math.sin(y * params.rippleFrequencyZ) *
+        Math.cos(phases[2]) *
+        params.rippleAmplitude
+    );
+  },
+};
+
+const FLAT_FIELD: WaveField = {
+  glsl: `
+vec3 waveField( vec2 wavePosition ) {
+\treturn vec3( 0.0 );
+}
+`,
+  sample: () => 0,
+};
+
+const BUILT_IN_WAVE_FIELDS: Record<string, WaveField> = {
+  sines: SINES_FIELD,
+  gerstner: GERSTNER_FIELD,
+  radial: RADIAL_FIELD,
+  noise: NOISE_FIELD,
+  standing: STANDING_FIELD,
+  flat: FLAT_FIELD,
+};
+
+export const BUILT_IN_WAVE_FIELD_NAMES = Object.keys(BUILT_IN_WAVE_FIELDS);
+
+const waveFields = new Map<string, RegisteredWaveField>();
+let registrations = 0;
+
+const addWaveField = (name: string, field: WaveField) => {
+  registrations += 1;
+  const registered = { ...field, name, programKey: `${name}-${registrations}` };
+  waveFields.set(name, registered);
+  return registered;
+};
+
+for (const [name, field] of Object.entries(BUILT_IN_WAVE_FIELDS)) {
+  addWaveField(name, field);
+}
+
+// Registering an existing custom name replaces it; wallpapers already using it pick the new
+// field up on their next setWaveField call.
+export function registerWaveField(name: string, field: WaveField) {
+  if (Object.hasOwn(BUILT_IN_WAVE_FIELDS, name)) {
+    throw new Error(`Wave field "${name}" is built in and cannot be replaced`);
+  }
+  if (!/vec3\s+waveField\s*\(/.test(field.glsl)) {
+    throw new Error(`Wave field "${name}" must define vec3 waveField( vec2 wavePosition )`);
+  }
+  return addWaveField(name, field);
+}
+
+export function getWaveField(name: string) {
+  return waveFields.get(name);
+}
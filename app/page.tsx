@@ -1,41 +1,45 @@
-import { CircleWallpaper } from "./components/CircleWallpaper";
+import { CircleWallpaperFlythrough } from "./components/CircleWallpaperFlythrough";
 
 export default function Home() {
   return (
-    <main
-      style={{
-        position: "relative",
-        width: "100%",
-        display: "flex",
-        flexDirection: "column",
-      }}
-    >
-      {[1, 2].map((index) => (
-        <section
-          key={index}
-          style={{
-            position: "relative",
-            minHeight: "100vh",
-            display: "flex",
-            alignItems: "center",
-            justifyContent: "center",
-            padding: "3rem 1.5rem",
-            overflow: "hidden",
-          }}
-        >
-          <CircleWallpaper
-            cameraDistance={20}
-            waveHeight={3}
-            blurIntensity={.8}
-            cameraRotation={{x: 0, y: 0, z: 0}}
-            cameraTranslation={{x: 0, y: 0, z: 0}}
+    <>
+      <CircleWallpaperFlythrough
+        keyframes={[
+          { section: "#section-1", cameraDistance: 20, waveHeight: 3, blurIntensity: 0.8 },
+          {
+            section: "#section-2",
+            easing: "easeInOut",
+            cameraDistance: 28,
+            cameraTranslation: { x: 6, y: -2, z: 0 },
+            cameraRotation: { x: -0.25, y: 0, z: 0.1 },
+            waveHeight: 1.5,
+            blurIntensity: 1.2,
+          },
+        ]}
+      />
+      <main
+        style={{
+          position: "relative",
+          width: "100%",
+          display: "flex",
+          flexDirection: "column",
+        }}
+      >
+        {[1, 2].map((index) => (
+          <section
+            key={index}
+            id={`section-${index}`}
             style={{
-              position: "absolute",
-              inset: 0,
+              position: "relative",
+              minHeight: "100vh",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              padding: "3rem 1.5rem",
             }}
           />
-        </section>
-      ))}
-    </main>
+        ))}
+      </main>
+    </>
   );
 }